@@ -2,7 +2,8 @@ import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { OpenAIWrapperClass, makeChatToolFunction } from "./openAIwrapper.class";
+import { OpenAIWrapperClass } from "./openAIwrapper.class";
+import { defineTool, enumOf, string } from "./openAIwrapperTool";
 
 //
 
@@ -125,41 +126,34 @@ Main example file
 
   // using tools
   if ((await askQuestion("Do you want to run tool chat example (y/n) ")) === "y") {
-    const getCurrentWeatherChatTool = makeChatToolFunction(
-      "get_current_weather",
-      "Get the current weather in a given location",
+    const getCurrentWeatherTool = defineTool(
       {
-        type: "object",
-        properties: {
-          location: {
-            type: "string",
-            description: "The city and state, e.g. San Francisco, CA",
-          },
-          unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+        name: "get_current_weather",
+        description: "Get the current weather in a given location",
+        params: {
+          location: string().describe("The city and state, e.g. San Francisco, CA"),
+          unit: enumOf("celsius", "fahrenheit").optional(),
         },
-        required: ["location"],
-      }
+      },
+      ({ location, unit }) => getCurrentWeather(location, unit)
     );
 
     await openAIthread
       .setModel("gpt-3.5-turbo-1106")
       .setDebug(true)
       .setMessages([{ role: "user", content: "What's the weather like in San Francisco" }])
-      .addToolWithFunction(getCurrentWeatherChatTool, getCurrentWeather)
-      .runPrompt({})
-      .then((ai) => {
-        console.log("Intermediate response", ai.getLastResponseAsChatCompletionResult());
-        console.log("All messages", ai.getMessages());
-
-        // we need to do a second run because tools need to run
-        if (ai.needsToolRun()) return ai.runPrompt();
-        else return ai;
-      })
+      .addDefinedTool(getCurrentWeatherTool)
+      .runUntilComplete(
+        {},
+        {
+          maxRounds: 4,
+          onRound: (round, ai) =>
+            console.log("Intermediate response", round, ai.getLastResponseAsChatCompletionResult()),
+        }
+      )
       .then((ai) => {
         console.log("Last response", ai.getLastResponseAsChatCompletionResult());
         console.log("All messages", ai.getMessages());
-
-        if (ai.needsToolRun()) console.log("Tool needs to run again, but we are not doing it here");
         return ai;
       });
   }
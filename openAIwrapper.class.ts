@@ -3,14 +3,68 @@ import { hasOwn } from "openai/core";
 import {
   ChatCompletionMessageParam,
   ChatCompletionTool,
+  ChatCompletionToolMessageParam,
   FunctionDefinition,
   FunctionParameters,
   ImageGenerateParams,
 } from "openai/resources";
 import { CompletionCreateParamsBase } from "openai/resources/completions";
-
-// can be more models than this
-type SupportedOpenAIModels = "gpt-3.5-turbo" | "gpt-4-1106-preview" | "gpt-3.5-turbo-1106";
+import { ContextStrategy } from "./openAIwrapperContext";
+import { CostBreakdown, CostLedger, CostModality, PriceTable } from "./openAIwrapperCost";
+import {
+  ModelCapabilityError,
+  ModelFeature,
+  ModelModality,
+  ModelRegistry,
+  defaultModelRegistry,
+} from "./openAIwrapperModels";
+import { InferJsonSchema, JsonSchema, validateJsonSchema } from "./openAIwrapperSchema";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from "./openAIwrapperRetry";
+import {
+  Provider,
+  ProviderCapability,
+  UnsupportedCapabilityError,
+  openAIProvider,
+} from "./openAIwrapperProvider";
+import { RateLimitScheduler } from "./openAIwrapperScheduler";
+import { CassetteMismatchError, Transport } from "./openAIwrapperTransport";
+import {
+  OpenAIWrapperSnapshot,
+  RestoreSnapshotOptions,
+  SNAPSHOT_VERSION,
+  migrateSnapshot,
+} from "./openAIwrapperSnapshot";
+import { SnapshotStorage } from "./openAIwrapperStorage";
+import {
+  AudioInput,
+  AudioTranslationOptions,
+  TranscriptionOptions,
+  TranscriptionResult,
+  toAudioFile,
+  toTranscriptionResult,
+} from "./openAIwrapperAudio";
+import {
+  RetrievalOptions,
+  RetrievedPassage,
+  Retriever,
+  formatContextWithCitations,
+} from "./openAIwrapperRetriever";
+import {
+  ImageDetail,
+  ImageInput,
+  ImageSource,
+  hasImageParts,
+  toImageContentPart,
+} from "./openAIwrapperImage";
+import {
+  LongSpeechOptions,
+  LongSpeechResult,
+  SPEECH_MAX_CHARACTERS,
+  openSpeechOutput,
+  splitSpeechText,
+} from "./openAIwrapperSpeech";
+import { countMessageTokens, countTokens } from "./openAIwrapperTokenizer";
+import { ToolDefinition } from "./openAIwrapperTool";
 
 /**
  * Represents the count of tokens and tool calls in an OpenAI chat thread.
@@ -33,13 +87,235 @@ export interface CompletionCreateParamsBaseOptionals
  */
 export interface ImageGenerateParamsOptionals extends Omit<ImageGenerateParams, "prompt"> {}
 
+/**
+ * How the parsed tool arguments are passed to the JS function of a tool.
+ * - "object": the function receives the parsed argument object as its only argument
+ * - "positional": the function receives the arguments in the order of the `properties` in the parameters schema
+ */
+export type ToolArgumentMode = "object" | "positional";
+
+/**
+ * What to do when a tool function is missing, throws or times out.
+ * - "report": send the error to the model as the tool result, so it can recover
+ * - "throw": rethrow it as a `ToolCallError` (the thread still gets a tool message for every tool call)
+ */
+export type ToolErrorPolicy = "report" | "throw";
+
+/**
+ * Thrown while running tools when the tool error policy is "throw".
+ */
+export class ToolCallError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly toolCallId: string,
+    public readonly cause: unknown
+  ) {
+    super(`Tool ${toolName} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "ToolCallError";
+  }
+}
+
+/**
+ * A tool call waiting for approval.
+ */
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  // the parsed and validated arguments
+  args: unknown;
+}
+
+/**
+ * The decision on a tool call. When approved, `args` optionally replaces the arguments the model gave.
+ */
+export type ToolApprovalDecision =
+  | { approved: true; args?: unknown }
+  | { approved: false; reason?: string };
+
+/**
+ * Decides whether a tool call may run - either a callback, or "manual" to wait for `resolveToolApproval`.
+ */
+export type ToolApproval =
+  | ((
+      request: ToolApprovalRequest
+    ) => ToolApprovalDecision | boolean | Promise<ToolApprovalDecision | boolean>)
+  | "manual";
+
+/**
+ * Usage limits for an OpenAIWrapperClass instance, see `setBudget`.
+ */
+export interface Budget {
+  maxTotalTokens?: number;
+  maxCostUsd?: number;
+  maxToolCalls?: number;
+  // API requests sent, retries included
+  maxRequests?: number;
+  // fractions of a limit at which to warn, defaults to [0.8]
+  warnAt?: number[];
+  // called once per limit and threshold, defaults to console.warn
+  onWarning?: (warning: BudgetWarning) => void;
+}
+
+/**
+ * Passed to the budget warning callback when the usage crosses a threshold.
+ */
+export interface BudgetWarning {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  threshold: number;
+}
+
+export type BudgetLimit = "maxTotalTokens" | "maxCostUsd" | "maxToolCalls" | "maxRequests";
+
+/**
+ * Thrown when a request is refused - or a stream aborted - because a budget limit is reached.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly limit: BudgetLimit,
+    public readonly used: number,
+    public readonly max: number
+  ) {
+    super(`Budget exceeded: ${limit} is ${max}, used ${used}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * What to do when a chat request would exceed the context window of the model.
+ */
+export type PreflightCheck = "off" | "warn" | "error";
+
+/**
+ * Thrown before sending a chat request that would exceed the context window of the model.
+ */
+export class ContextWindowExceededError extends Error {
+  constructor(
+    public readonly promptTokens: number,
+    public readonly maxTokens: number,
+    public readonly contextWindow: number
+  ) {
+    super(
+      `Request needs ${promptTokens} prompt tokens + ${maxTokens} max_tokens, the context window is ${contextWindow} tokens`
+    );
+    this.name = "ContextWindowExceededError";
+  }
+}
+
+// the context block of a retriever and the user message it is inserted before
+type RetrievedContext = {
+  message: ChatCompletionMessageParam;
+  passages: RetrievedPassage[];
+  block: ChatCompletionMessageParam;
+};
+
+// the streamed usage chunk, which this SDK version has no typings for
+type ChatCompletionChunkWithUsage = OpenAI.Chat.Completions.ChatCompletionChunk & {
+  usage?: OpenAI.Completions.CompletionUsage | null;
+};
+
+/**
+ * Options for `runStructuredPrompt`.
+ */
+export interface StructuredPromptOptions {
+  // defaults to the value set via setStructuredRepairAttempts
+  maxRepairAttempts?: number;
+  modelOptions?: CompletionCreateParamsBaseOptionals;
+}
+
+/**
+ * Thrown by `runStructuredPrompt` when the answer still does not match the schema after all repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  constructor(public readonly errors: string[], public readonly content: string) {
+    super(`Answer does not match the schema: ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Options for `runUntilComplete`.
+ */
+export interface RunUntilCompleteOptions {
+  // maximum number of model calls, defaults to the value set via setMaxToolRounds
+  maxRounds?: number;
+  // called after every round, with the round number (starting at 1)
+  onRound?: (round: number, wrapper: OpenAIWrapperClass) => void | Promise<void>;
+  // throw a ToolRoundLimitError when the cap is hit (default), or resolve with needsToolRun() still true
+  throwOnMaxRounds?: boolean;
+}
+
+/**
+ * Thrown by `runUntilComplete` when the assistant still requests tools after the maximum number of rounds.
+ */
+export class ToolRoundLimitError extends Error {
+  constructor(public readonly rounds: number) {
+    super(`Tool loop did not complete within ${rounds} rounds`);
+    this.name = "ToolRoundLimitError";
+  }
+}
+
+/**
+ * Thrown by `loadSnapshot` when the storage has no snapshot with the id.
+ */
+export class SnapshotNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`No snapshot found with id ${id}`);
+    this.name = "SnapshotNotFoundError";
+  }
+}
+
+/**
+ * A branch of the conversation history. Branches form a tree: a branch starts with the messages of its parent up to
+ * `forkIndex`, and has its own completions and usage.
+ */
+export interface ConversationBranch {
+  id: string;
+  // undefined for the main branch
+  parentId?: string;
+  forkIndex: number;
+  createdAt: number;
+  messages: ChatCompletionMessageParam[];
+  receivedCompletions: OpenAI.Chat.Completions.ChatCompletion[];
+  counts: OpenAIWrapperClassCount;
+  needsToolRun: boolean;
+}
+
+/**
+ * Describes a branch, see `listBranches`.
+ */
+export interface BranchInfo {
+  id: string;
+  parentId?: string;
+  forkIndex: number;
+  createdAt: number;
+  messageCount: number;
+  completionCount: number;
+  counts: OpenAIWrapperClassCount;
+  active: boolean;
+}
+
+/**
+ * Thrown by `switchBranch` when there is no branch with the id.
+ */
+export class BranchNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`No branch found with id ${id}`);
+    this.name = "BranchNotFoundError";
+  }
+}
+
 /**
  * Represents a chat thread for interacting with the OpenAI chat API.
  */
 export class OpenAIWrapperClass {
   // the open AI interfaces
+  protected provider: Provider;
+  protected transport: Transport | undefined = undefined;
   protected openai: OpenAI;
-  protected model: SupportedOpenAIModels = "gpt-3.5-turbo";
+  protected modelRegistry: ModelRegistry = defaultModelRegistry;
+  protected model: string = defaultModelRegistry.getDefault("chat");
 
   protected json_mode: boolean = false;
   protected messages: ChatCompletionMessageParam[] = [];
@@ -56,20 +332,58 @@ export class OpenAIWrapperClass {
     total_tokens: 0,
     tool_calls: 0,
   };
+  protected costLedger: CostLedger = new CostLedger();
+  protected budget: Budget | undefined = undefined;
+  protected budgetWarningsSent: string[] = [];
+  // not every response reports its usage, so requests are counted apart from the cost ledger
+  protected requestCount: number = 0;
+  // models without a price are warned about once
+  protected unpricedModelsWarned: string[] = [];
 
   // custom fields
   protected receivedCompletions: Array<OpenAI.Chat.Completions.ChatCompletion> = [];
   protected toolFunctionmap: Record<string, Function> = {};
+  protected toolArgumentModes: Record<string, ToolArgumentMode> = {};
+  protected toolErrorPolicy: ToolErrorPolicy = "report";
+  protected toolConcurrency: number = Infinity;
+  protected toolApproval: ToolApproval | undefined = undefined;
+  protected toolApprovals: Record<string, ToolApproval> = {};
+  protected pendingApprovals: ToolApprovalRequest[] = [];
+  protected approvalResolvers: Record<string, (decision: ToolApprovalDecision | boolean) => void> =
+    {};
+  protected toolTimeout: number | undefined = undefined;
+  protected toolTimeouts: Record<string, number> = {};
   protected debug: boolean = false;
   protected lastResponse:
     | OpenAI.Images.ImagesResponse
     | Response
     | OpenAI.Moderations.Moderation
     | number[]
+    | number[][]
+    | TranscriptionResult
+    | LongSpeechResult
     | OpenAI.Chat.Completions.ChatCompletion
     | undefined = undefined;
   protected _needsToolRun: boolean = false;
+  protected branches: Record<string, ConversationBranch> = {};
+  protected activeBranchId: string = "main";
+  protected maxToolRounds: number = 10;
+  protected streamUsage: boolean = true;
+  protected preflightCheck: PreflightCheck = "off";
+  protected contextStrategy: ContextStrategy | undefined = undefined;
+  protected retriever: Retriever | undefined = undefined;
+  protected retrievalOptions: RetrievalOptions = {};
+  protected lastResponseSources: RetrievedPassage[] = [];
+  // keyed by the user message, so the tool rounds answering it do not embed it again
+  protected retrievalCache: WeakMap<ChatCompletionMessageParam, RetrievedPassage[]> = new WeakMap();
+  protected lastRequestMessages: ChatCompletionMessageParam[] = [];
+  protected structuredRepairAttempts: number = 2;
+  protected structuredOutputSchema: JsonSchema | undefined = undefined;
+  protected lastStructuredResult: unknown = undefined;
   protected streamCallbackFn: ((delta: string | undefined) => void) | undefined = undefined;
+  protected retryPolicy: RetryPolicy | undefined = { ...DEFAULT_RETRY_POLICY };
+  protected rateLimitScheduler: RateLimitScheduler | undefined = undefined;
+  protected rateLimitPriority: number = 0;
 
   /****************************************************************************************
 
@@ -77,22 +391,84 @@ export class OpenAIWrapperClass {
 
   *****************************************************************************************/
 
-  constructor(apiKey: string) {
-    if (apiKey === undefined) throw new Error("API Key is required");
-    this.openai = new OpenAI({ apiKey });
+  /**
+   * @param apiKeyOrProvider - An OpenAI API key, or the provider to use, e.g. `azureOpenAIProvider(...)`.
+   */
+  constructor(apiKeyOrProvider: string | Provider) {
+    if (apiKeyOrProvider === undefined) throw new Error("API Key is required");
+    this.provider =
+      typeof apiKeyOrProvider === "string"
+        ? openAIProvider({ apiKey: apiKeyOrProvider })
+        : apiKeyOrProvider;
+    this.openai = this._createClient();
+  }
+
+  /**
+   * Sets the provider for the OpenAIWrapperClass: OpenAI, an Azure OpenAI resource or an OpenAI-compatible server.
+   *
+   * @param provider - The provider, e.g. `compatibleProvider({ baseURL: "http://localhost:8080/v1" })`.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setProvider(provider: Provider): OpenAIWrapperClass {
+    this.provider = provider;
+    this.openai = this._createClient();
+
+    return this;
+  }
+
+  /**
+   * Sets the transport that sends the HTTP requests, e.g. `recordingTransport` or `replayTransport` for tests without
+   * network access.
+   *
+   * @param transport - A function with the signature of `fetch`, or undefined for the default one of the SDK.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setTransport(transport: Transport | undefined): OpenAIWrapperClass {
+    this.transport = transport;
+    this.openai = this._createClient();
+
+    return this;
+  }
+
+  /**
+   * Returns whether the provider supports a capability, e.g. "vision" or "tools".
+   *
+   * @param capability - The capability to check.
+   * @returns True when it is supported.
+   */
+  supports(capability: ProviderCapability): boolean {
+    return this.provider.capabilities.includes(capability);
   }
 
   /**
    * Sets the model for the OpenAIWrapperClass.
-   * @param model The supported OpenAI model.
+   * @param model The chat model - models missing from the model registry are used as is, without validation.
    * @returns The updated OpenAIWrapperClass instance.
+   * @throws ModelCapabilityError when the model registry knows the model as a non-chat model.
    */
-  setModel(model: SupportedOpenAIModels): OpenAIWrapperClass {
+  setModel(model: string): OpenAIWrapperClass {
+    this.modelRegistry.validate(model, "chat");
+    if (this.debug && this.modelRegistry.get(model) === undefined)
+      console.log("Model not in the model registry, not validated", model);
+
     this.model = model;
 
     return this;
   }
 
+  /**
+   * Sets the model registry, which knows the context window, output limit and features of each model. By default all
+   * instances share `defaultModelRegistry`.
+   *
+   * @param modelRegistry - The model registry.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setModelRegistry(modelRegistry: ModelRegistry): OpenAIWrapperClass {
+    this.modelRegistry = modelRegistry;
+
+    return this;
+  }
+
   /**
    * Sets the debug mode for the OpenAIWrapperClass.
    * @param debug - A boolean value indicating whether debug mode should be enabled or disabled.
@@ -115,6 +491,17 @@ export class OpenAIWrapperClass {
     return this;
   }
 
+  /**
+   * Sets how many times `runStructuredPrompt` asks the model to repair an answer that does not match the schema.
+   * @param structuredRepairAttempts - The number of repair attempts, 0 to fail on the first invalid answer.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setStructuredRepairAttempts(structuredRepairAttempts: number): OpenAIWrapperClass {
+    this.structuredRepairAttempts = structuredRepairAttempts;
+
+    return this;
+  }
+
   /**
    * Sets the temperature for generating responses in the OpenAI chat thread.
    * @param temperature The temperature value to set.
@@ -149,6 +536,112 @@ export class OpenAIWrapperClass {
     return this;
   }
 
+  /**
+   * Sets the maximum number of model calls `runUntilComplete` makes before giving up on the tool loop.
+   *
+   * @param maxToolRounds The maximum number of rounds.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setMaxToolRounds(maxToolRounds: number): OpenAIWrapperClass {
+    this.maxToolRounds = maxToolRounds;
+
+    return this;
+  }
+
+  /**
+   * Sets the check done before each chat request whether the prompt plus max_tokens fits in the context window of the model.
+   *
+   * @param preflightCheck - "off" (default), "warn" to log a warning, or "error" to throw a `ContextWindowExceededError` without sending the request.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setPreflightCheck(preflightCheck: PreflightCheck): OpenAIWrapperClass {
+    this.preflightCheck = preflightCheck;
+
+    return this;
+  }
+
+  /**
+   * Sets the context strategy, which decides what part of the history is sent with each chat request - e.g. to stay
+   * within the context window of the model. The full history in `getMessages()` is never changed.
+   * See `dropOldestStrategy`, `keepLastTurnsStrategy` and `summarizeStrategy` for the built-in strategies.
+   *
+   * @param contextStrategy - The context strategy, or undefined to send the full history.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setContextStrategy(contextStrategy: ContextStrategy | undefined): OpenAIWrapperClass {
+    this.contextStrategy = contextStrategy;
+
+    return this;
+  }
+
+  /**
+   * Sets the retriever for retrieval-augmented generation. Before each chat request, the latest user message is
+   * embedded, the retriever finds the most relevant passages, and these are sent as a context block with numbered
+   * citations right before that message. The passages are retrieved once per user message, also when tool rounds
+   * follow. The context block is never stored in `getMessages()`; the passages used are available from
+   * `getLastResponseSources()`.
+   *
+   * @param retriever - The retriever, e.g. `vectorStoreRetriever(store)`, or undefined to stop retrieving.
+   * @param options - Optional number of passages, embedding model and format of the context block.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setRetriever(
+    retriever: Retriever | undefined,
+    options: RetrievalOptions = {}
+  ): OpenAIWrapperClass {
+    this.retriever = retriever;
+    this.retrievalOptions = options;
+    this.retrievalCache = new WeakMap();
+
+    return this;
+  }
+
+  /**
+   * Sets whether streamed completions ask the API for their token usage. Disable it for servers that do not support
+   * `stream_options`; the usage is then estimated locally.
+   *
+   * @param streamUsage - A boolean value indicating whether to request the usage.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setStreamUsage(streamUsage: boolean): OpenAIWrapperClass {
+    this.streamUsage = streamUsage;
+
+    return this;
+  }
+
+  /**
+   * Sets the retry policy for failed API calls: rate limits (429), server errors (5xx), timeouts and network failures
+   * are retried with exponential backoff and jitter, honouring the `retry-after` header. Streams are only retried as
+   * long as no tokens were emitted.
+   *
+   * @param retryPolicy - The policy, merged into the default one, or false to disable retries.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setRetryPolicy(retryPolicy: Partial<RetryPolicy> | false): OpenAIWrapperClass {
+    this.retryPolicy =
+      retryPolicy === false ? undefined : { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+
+    return this;
+  }
+
+  /**
+   * Attaches a rate-limit scheduler, which can be shared by many instances to stay within the requests-per-minute and
+   * tokens-per-minute limits of the organization. Every API call waits for its turn in the scheduler first.
+   *
+   * @param scheduler - The shared scheduler, or undefined to detach it.
+   * @param priority - The priority of the calls of this instance, higher goes first.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setRateLimitScheduler(
+    scheduler: RateLimitScheduler | undefined,
+    priority: number = 0
+  ): OpenAIWrapperClass {
+    this.rateLimitScheduler = scheduler;
+    this.rateLimitPriority = priority;
+
+    return this;
+  }
+
   /**
    * Sets a number of tools for the OpenAIWrapperClass.
    *
@@ -194,11 +687,13 @@ export class OpenAIWrapperClass {
    *
    * @param chatToolFunction - The function definition as ChatCompletionTool or FunctionDefinition.
    * @param toolFunction - The tool function to associate with the function definition.
+   * @param argumentMode - How the arguments are passed to the JS function, see `ToolArgumentMode`. Defaults to "positional".
    * @returns The updated OpenAIWrapperClass instance.
    */
   addToolWithFunction(
     chatToolFunction: ChatCompletionTool | FunctionDefinition,
-    toolFunctionInJS: Function
+    toolFunctionInJS: Function,
+    argumentMode: ToolArgumentMode = "positional"
   ): OpenAIWrapperClass {
     this.addTool(chatToolFunction);
 
@@ -209,19 +704,34 @@ export class OpenAIWrapperClass {
     } else {
       name = (chatToolFunction as FunctionDefinition).name;
     }
-    this.setToolFunction(name, toolFunctionInJS);
+    this.setToolFunction(name, toolFunctionInJS, argumentMode);
+
+    return this;
+  }
+
+  /**
+   * Adds tools created with `defineTool`, together with their typed JS functions. The functions receive the parsed argument object.
+   *
+   * @param definitions - The tool definitions to add.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  addDefinedTool(...definitions: ToolDefinition[]): OpenAIWrapperClass {
+    definitions.forEach((definition) => {
+      this.addToolWithFunction(definition.tool, definition.fn, "object");
+    });
 
     return this;
   }
 
   /**
-   * Sets the tool-JS function map for the OpenAIWrapperClass.
+   * Sets the tool-JS function map for the OpenAIWrapperClass. All functions receive the arguments positionally.
    *
    * @param toolFunctionmap - The tool function map to set.
    * @returns The updated OpenAIWrapperClass instance.
    */
   setToolFunctionMap(toolFunctionmap: Record<string, Function>): OpenAIWrapperClass {
     this.toolFunctionmap = toolFunctionmap;
+    this.toolArgumentModes = {};
 
     return this;
   }
@@ -231,175 +741,418 @@ export class OpenAIWrapperClass {
    *
    * @param name - The name of the tool.
    * @param toolFunctionInJS - The JS function to be associated with the tool.
+   * @param argumentMode - How the arguments are passed to the JS function, see `ToolArgumentMode`. Defaults to "positional".
    * @returns The updated OpenAIWrapperClass instance.
    */
-  setToolFunction(name: string, toolFunctionInJS: Function): OpenAIWrapperClass {
+  setToolFunction(
+    name: string,
+    toolFunctionInJS: Function,
+    argumentMode: ToolArgumentMode = "positional"
+  ): OpenAIWrapperClass {
     this.toolFunctionmap[name] = toolFunctionInJS;
+    this.toolArgumentModes[name] = argumentMode;
 
     return this;
   }
 
   /**
-   * Retrieves the last response received.
+   * Sets what happens when a tool function is missing, throws or times out.
    *
-   * @returns The last response.
+   * @param toolErrorPolicy - "report" to send the error to the model as the tool result, "throw" to rethrow it as a `ToolCallError`.
+   * @returns The updated OpenAIWrapperClass instance.
    */
-  getLastResponse() {
-    return this.lastResponse;
+  setToolErrorPolicy(toolErrorPolicy: ToolErrorPolicy): OpenAIWrapperClass {
+    this.toolErrorPolicy = toolErrorPolicy;
+
+    return this;
   }
 
-  /****************************************************************************************
+  /**
+   * Sets how many tool calls of one assistant message may run at the same time.
+   *
+   * @param toolConcurrency - The maximum number of tool functions running in parallel. Defaults to no limit.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setToolConcurrency(toolConcurrency: number): OpenAIWrapperClass {
+    if (toolConcurrency < 1) throw new Error("toolConcurrency must be at least 1");
+    this.toolConcurrency = toolConcurrency;
 
-    TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION
-    
-  *****************************************************************************************/
+    return this;
+  }
 
   /**
-   * Sets the messages for the OpenAIWrapperClass.
+   * Sets the timeout for running tool functions. A tool that does not finish in time is treated as a failed tool.
    *
-   * @param messages - An array of ChatCompletionMessageParam objects representing the messages to be set.
+   * @param timeout - The timeout in milliseconds, or undefined to wait forever.
+   * @param name - Optional name of the tool to set the timeout for. If omitted, the timeout applies to all tools without their own timeout.
    * @returns The updated OpenAIWrapperClass instance.
    */
-  setMessages(messages: ChatCompletionMessageParam[]): OpenAIWrapperClass {
-    this.messages = [];
-    this._addmessages(messages);
+  setToolTimeout(timeout: number | undefined, name?: string): OpenAIWrapperClass {
+    if (name === undefined) this.toolTimeout = timeout;
+    else if (timeout === undefined) delete this.toolTimeouts[name];
+    else this.toolTimeouts[name] = timeout;
 
     return this;
   }
 
   /**
-   * Appends a message to the chat conversation and run the prompt.
+   * Sets the approval needed before a tool function runs, e.g. for tools that mutate data.
+   * The approver receives the tool name and parsed arguments, and can approve, reject with a reason or edit the arguments.
+   * A rejection is sent to the model as the tool result.
    *
-   * @param message - The message to append.
+   * @param approval - A callback deciding on the tool call, "manual" to wait for `resolveToolApproval`, or undefined to remove the approval.
+   * @param name - Optional name of the tool. If omitted, the approval applies to all tools without their own approval.
    * @returns The updated OpenAIWrapperClass instance.
    */
-  appendMessage(message: ChatCompletionMessageParam): OpenAIWrapperClass {
-    this._addmessages([message]);
+  setToolApproval(approval: ToolApproval | undefined, name?: string): OpenAIWrapperClass {
+    if (name === undefined) this.toolApproval = approval;
+    else if (approval === undefined) delete this.toolApprovals[name];
+    else this.toolApprovals[name] = approval;
 
     return this;
   }
 
   /**
-   * Appends a message with role `user` to the OpenAIWrapperClass.
+   * Retrieves the tool calls currently waiting for approval.
    *
-   * @param message - The message to be appended.
+   * @returns The pending approval requests.
+   */
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return this.pendingApprovals;
+  }
+
+  /**
+   * Decides on a tool call waiting for approval, e.g. from a confirm dialog.
+   *
+   * @param toolCallId - The id of the tool call, see `getPendingApprovals`.
+   * @param decision - The decision, or a boolean to simply approve or reject.
    * @returns The updated OpenAIWrapperClass instance.
    */
-  appendUserMessage(message: string): OpenAIWrapperClass {
-    this._addmessages([{ content: message, role: "user" }]);
+  resolveToolApproval(
+    toolCallId: string,
+    decision: ToolApprovalDecision | boolean
+  ): OpenAIWrapperClass {
+    const resolve = this.approvalResolvers[toolCallId];
+    if (resolve === undefined)
+      throw new Error(`No manual approval pending for tool call ${toolCallId}`);
+
+    resolve(decision);
 
     return this;
   }
 
   /**
-   * PRIVATE METHOD - Adds messages to the existing list of messages.
+   * Sets or overrides the prices used by the cost ledger, e.g. for custom models or changed list prices.
    *
-   * @param messages - An array of ChatCompletionMessageParam objects representing the messages to be added.
-   * @returns The updated instance of OpenAIWrapperClass.
+   * @param prices - The prices keyed by model name. Token and character prices are in USD per 1 million.
+   * @returns The updated OpenAIWrapperClass instance.
    */
-  protected _addmessages(messages: ChatCompletionMessageParam[]): OpenAIWrapperClass {
-    this.messages = this.messages.concat(messages);
+  setPriceTable(prices: PriceTable): OpenAIWrapperClass {
+    this.costLedger.setPrices(prices);
 
     return this;
   }
 
   /**
-   * Sets the callback function for receiving stream deltas.
-   * @param deltaCallBackFn The callback function to be called with the stream delta.
+   * Sets limits on the usage of this instance. Before each request the projected usage is checked, and once a limit is
+   * reached further requests are refused with a `BudgetExceededError`; a stream that runs over budget is aborted.
+   *
+   * @param budget - The limits and warning thresholds, or undefined to remove the budget.
+   * @returns The updated OpenAIWrapperClass instance.
    */
-  setStreamCallback(deltaCallBackFn: (delta: string | undefined) => void) {
-    this.streamCallbackFn = deltaCallBackFn;
+  setBudget(budget: Budget | undefined): OpenAIWrapperClass {
+    this.budget = budget;
+    this.budgetWarningsSent = [];
 
     return this;
   }
 
   /**
-   * Runs the prompt stream for generating completions.
+   * Retrieves the total cost of all API calls made by this instance.
    *
-   * @param modelOptions - Optional parameters for the model.
-   * @returns A promise that resolves to the response from the completion API.
+   * @returns The cost in USD.
    */
-  runPromptStream(modelOptions?: CompletionCreateParamsBaseOptionals) {
-    this.streamAbortController = undefined;
-
-    return this.openai.chat.completions
-      .create({
-        ...modelOptions,
-        messages: this.messages,
-        model: this.model,
-        stream: true,
-        temperature: this.temperature,
-        response_format: { type: this.json_mode ? "json_object" : "text" },
-        tools: undefined,
-      })
-      .then(async (response) => {
-        // reset the parameters for the stream
-        let total = "";
-        if (this.streamCallbackFn) this.streamCallbackFn("");
-        this.streamAbortController = response.controller;
+  getCost(): number {
+    return this.costLedger.getCost();
+  }
 
-        // let's emit the stream delta and the concated stream
-        for await (const chunk of response) {
-          const chunk_as_string = chunk.choices[0]?.delta?.content || "";
-          total = total + chunk_as_string;
+  /**
+   * Retrieves the cost of all API calls made by this instance per model.
+   *
+   * @returns The cost in USD and the number of calls, keyed by model.
+   */
+  getCostBreakdown(): CostBreakdown {
+    return this.costLedger.getBreakdown();
+  }
 
-          if (this.streamCallbackFn) this.streamCallbackFn(chunk_as_string);
+  /**
+   * Retrieves the cost ledger with an entry for every API call, e.g. to serialize it.
+   *
+   * @returns The cost ledger.
+   */
+  getCostLedger(): CostLedger {
+    return this.costLedger;
+  }
 
-          if (this.debug) console.log("Stream output", chunk_as_string, total);
-        }
+  /**
+   * Retrieves the last response received.
+   *
+   * @returns The last response.
+   */
+  getLastResponse() {
+    return this.lastResponse;
+  }
 
-        // if the stream is aborted, we need reset the last response and end
-        if (this.streamAbortController === undefined) {
-          this.lastResponse = undefined;
+  /****************************************************************************************
 
-          return this;
-        }
+    TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION TEXT GENERATION
+    
+  *****************************************************************************************/
 
-        // add this completion to the list of received completion once ready and not aborted
-        if (this.streamAbortController !== undefined) {
-          if (this.debug) console.log("Stream completed", total);
-
-          this.lastResponse = {
-            id: "stream",
-            choices: [
-              {
-                finish_reason: "stop",
-                index: 0,
-                message: {
-                  content: total,
-                  role: "assistant",
-                },
-              },
-            ],
-            created: Date.now(),
-            model: this.model,
-            object: "chat.completion",
+  /**
+   * Sets the messages for the OpenAIWrapperClass.
+   *
+   * @param messages - An array of ChatCompletionMessageParam objects representing the messages to be set.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  setMessages(messages: ChatCompletionMessageParam[]): OpenAIWrapperClass {
+    this.messages = [];
+    this._addmessages(messages);
 
-            usage: {
-              completion_tokens: 0,
-              prompt_tokens: 0,
-              total_tokens: 0,
-            },
-          };
+    return this;
+  }
 
-          this.receivedCompletions.push(this.lastResponse);
+  /**
+   * Appends a message to the chat conversation and run the prompt.
+   *
+   * @param message - The message to append.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  appendMessage(message: ChatCompletionMessageParam): OpenAIWrapperClass {
+    this._addmessages([message]);
 
-          this._addmessages([
-            {
-              role: "assistant",
-              content: total,
-            },
-          ]);
-        }
+    return this;
+  }
 
-        // message that the stream is completed
-        if (this.streamCallbackFn) this.streamCallbackFn(undefined);
+  /**
+   * Appends a message with role `user` to the OpenAIWrapperClass.
+   *
+   * @param message - The message to be appended.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  appendUserMessage(message: string): OpenAIWrapperClass {
+    this._addmessages([{ content: message, role: "user" }]);
 
-        // make sure we cannot abort the stream anymore
-        this.streamAbortController = undefined;
+    return this;
+  }
 
-        return this;
-      });
+  /**
+   * Appends a message with role `user` with images to the OpenAIWrapperClass. The images stay in the thread, so
+   * follow-up questions about them work; they are counted in the token estimates. Send it with a vision model, e.g.
+   * using `runVisionPrompt` or `runPrompt` after `setModel("gpt-4o")`.
+   *
+   * @param text - The text of the message.
+   * @param images - The images: http(s) URLs, local file paths or Buffers, optionally each with its own detail level.
+   * Files and Buffers are sent inline as base64 data URLs, their MIME type is detected from the bytes.
+   * @param detail - The detail level for images without their own: "auto", "low" or "high". Optional.
+   * @returns A promise that resolves to the updated OpenAIWrapperClass instance.
+   * @throws UnsupportedImageError when a file or Buffer is not a PNG, JPEG, GIF or WebP image.
+   */
+  async appendUserMessageWithImages(
+    text: string,
+    images: Array<ImageSource | ImageInput>,
+    detail?: ImageDetail
+  ): Promise<OpenAIWrapperClass> {
+    const imageParts = await Promise.all(images.map((image) => toImageContentPart(image, detail)));
+    this._addmessages([{ role: "user", content: [{ type: "text", text }, ...imageParts] }]);
+
+    return this;
+  }
+
+  /**
+   * PRIVATE METHOD - Adds messages to the existing list of messages.
+   *
+   * @param messages - An array of ChatCompletionMessageParam objects representing the messages to be added.
+   * @returns The updated instance of OpenAIWrapperClass.
+   */
+  protected _addmessages(messages: ChatCompletionMessageParam[]): OpenAIWrapperClass {
+    this.messages = this.messages.concat(messages);
+
+    return this;
+  }
+
+  /**
+   * Sets the callback function for receiving stream deltas.
+   * @param deltaCallBackFn The callback function to be called with the stream delta.
+   */
+  setStreamCallback(deltaCallBackFn: (delta: string | undefined) => void) {
+    this.streamCallbackFn = deltaCallBackFn;
+
+    return this;
+  }
+
+  /**
+   * Runs the prompt stream for generating completions.
+   * Tool calls in the stream are reassembled and run like in `runPrompt`, check `needsToolRun()` afterwards.
+   *
+   * @param modelOptions - Optional parameters for the model.
+   * @returns A promise that resolves to the response from the completion API.
+   */
+  async runPromptStream(modelOptions?: CompletionCreateParamsBaseOptionals) {
+    this.streamAbortController = undefined;
+    this._needsToolRun = false;
+
+    const requestMessages = await this._prepareRequestMessages(modelOptions, ["streaming"]);
+
+    // a failed stream is only retried as long as nothing reached the callback
+    let emitted = false;
+
+    return this._callApi(
+      "runPromptStream",
+      this._chatRequest(requestMessages, this.model, this.tools, modelOptions?.max_tokens),
+      () =>
+        this.openai.chat.completions
+          .create({
+            ...modelOptions,
+            messages: requestMessages,
+            model: this.model,
+            stream: true,
+            temperature: this.temperature,
+            response_format: { type: this.json_mode ? "json_object" : "text" },
+            tools: this.tools.length > 0 ? this.tools : undefined,
+            max_tokens: modelOptions?.max_tokens ?? this.max_tokens,
+            // not in the typings of this SDK version yet - makes the API send the usage in a final chunk
+            ...(this.streamUsage && this.supports("streamUsage")
+              ? { stream_options: { include_usage: true } }
+              : {}),
+          } as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming)
+          .then(async (response) => {
+            // reset the parameters for the stream
+            let total = "";
+            const toolCalls: Array<OpenAI.Chat.Completions.ChatCompletionMessageToolCall> = [];
+            let finishReason:
+              | OpenAI.Chat.Completions.ChatCompletion.Choice["finish_reason"]
+              | null = null;
+            let usage: OpenAI.Completions.CompletionUsage | undefined = undefined;
+            let lastChunk: OpenAI.Chat.Completions.ChatCompletionChunk | undefined = undefined;
+            let budgetError: BudgetExceededError | undefined = undefined;
+            // the completion tokens received so far, counted for the budget
+            let streamedTokens = 0;
+            const promptTokens =
+              this.budget !== undefined
+                ? countMessageTokens(requestMessages, this.model, this.tools)
+                : 0;
+            if (this.streamCallbackFn) this.streamCallbackFn("");
+            this.streamAbortController = response.controller;
+
+            // let's emit the stream delta and the concated stream
+            for await (const chunk of response) {
+              lastChunk = chunk;
+              // the usage chunk comes last and has no choices
+              const chunkUsage = (chunk as ChatCompletionChunkWithUsage).usage;
+              if (chunkUsage) usage = chunkUsage;
+              if (chunk.choices[0]?.finish_reason) finishReason = chunk.choices[0].finish_reason;
+
+              const chunk_as_string = chunk.choices[0]?.delta?.content || "";
+              total = total + chunk_as_string;
+              if (chunk_as_string || chunk.choices[0]?.delta?.tool_calls) emitted = true;
+
+              // tool calls arrive in pieces, keyed by their index - the arguments need to be concatenated
+              for (const toolCallDelta of chunk.choices[0]?.delta?.tool_calls ?? []) {
+                const toolCall = (toolCalls[toolCallDelta.index] ??= {
+                  id: "",
+                  type: "function",
+                  function: { name: "", arguments: "" },
+                });
+                if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+                if (toolCallDelta.function?.name)
+                  toolCall.function.name += toolCallDelta.function.name;
+                if (toolCallDelta.function?.arguments)
+                  toolCall.function.arguments += toolCallDelta.function.arguments;
+              }
+
+              if (this.streamCallbackFn) this.streamCallbackFn(chunk_as_string);
+
+              if (this.debug) console.log("Stream output", chunk_as_string, total);
+
+              // stop the stream as soon as it runs over budget
+              if (this.budget !== undefined && chunk.choices[0]?.delta !== undefined) {
+                // a delta may hold several tokens, so it is counted like the estimate of the usage
+                streamedTokens += countTokens(chunk_as_string, this.model);
+                for (const toolCallDelta of chunk.choices[0].delta.tool_calls ?? [])
+                  streamedTokens +=
+                    countTokens(toolCallDelta.function?.name ?? "", this.model) +
+                    countTokens(toolCallDelta.function?.arguments ?? "", this.model);
+                budgetError = this._findBudgetExceeded(
+                  this._projectChatUsage(promptTokens, streamedTokens)
+                );
+                if (budgetError !== undefined) {
+                  if (this.debug)
+                    console.log("Stream aborted, budget exceeded", budgetError.message);
+                  this.abortStream();
+                }
+              }
+            }
+
+            // an aborted stream is still billed, so count what we received
+            if (usage === undefined)
+              usage = this._estimateStreamUsage(requestMessages, total, toolCalls);
+            this._updateThreadCount({ model: lastChunk?.model, usage });
+
+            // if the stream is aborted, we need reset the last response and end
+            if (this.streamAbortController === undefined) {
+              this.lastResponse = undefined;
+
+              if (budgetError !== undefined) throw budgetError;
+
+              return this;
+            }
+
+            // add this completion to the list of received completion once ready and not aborted
+            if (this.streamAbortController !== undefined) {
+              if (this.debug) console.log("Stream completed", total, toolCalls);
+
+              const message: OpenAI.Chat.Completions.ChatCompletionMessage =
+                toolCalls.length > 0
+                  ? { content: total || null, role: "assistant", tool_calls: toolCalls }
+                  : { content: total, role: "assistant" };
+
+              this.lastResponse = {
+                id: lastChunk?.id ?? "stream",
+                choices: [
+                  {
+                    // a stream without finish reason ended unexpectedly - report it as truncated
+                    finish_reason: finishReason ?? "length",
+                    index: 0,
+                    message,
+                  },
+                ],
+                created: lastChunk?.created ?? Math.floor(Date.now() / 1000),
+                model: lastChunk?.model ?? this.model,
+                system_fingerprint: lastChunk?.system_fingerprint,
+                object: "chat.completion",
+                usage,
+              };
+
+              this.receivedCompletions.push(this.lastResponse);
+
+              this._addmessages([message]);
+            }
+
+            try {
+              if (toolCalls.length > 0) await this._runToolCalls(toolCalls);
+            } finally {
+              // message that the stream is completed
+              if (this.streamCallbackFn) this.streamCallbackFn(undefined);
+
+              // make sure we cannot abort the stream anymore
+              this.streamAbortController = undefined;
+            }
+
+            return this;
+          }),
+      () => !emitted
+    );
   }
 
   /**
@@ -421,71 +1174,76 @@ export class OpenAIWrapperClass {
   async runPrompt(modelOptions?: CompletionCreateParamsBaseOptionals) {
     this._needsToolRun = false;
 
-    const response = await this.openai.chat.completions.create({
-      ...modelOptions,
-      messages: this.messages,
-      model: this.model,
-      stream: false,
-      temperature: this.temperature,
-      response_format: { type: this.json_mode ? "json_object" : "text" },
-      tools: this.tools.length > 0 ? this.tools : undefined,
-      max_tokens: this.max_tokens,
-    });
+    const requestMessages = await this._prepareRequestMessages(modelOptions);
+
+    const response = await this._callApi(
+      "runPrompt",
+      this._chatRequest(requestMessages, this.model, this.tools, modelOptions?.max_tokens),
+      () =>
+        this.openai.chat.completions.create({
+          ...modelOptions,
+          messages: requestMessages,
+          model: this.model,
+          stream: false,
+          temperature: this.temperature,
+          response_format: { type: this.json_mode ? "json_object" : "text" },
+          tools: this.tools.length > 0 ? this.tools : undefined,
+          max_tokens: modelOptions?.max_tokens ?? this.max_tokens,
+        })
+    );
 
     // add this completion to the list of received completions
     this.receivedCompletions.push(response);
     if (this.debug) console.log("receivedCompletions length", this.receivedCompletions.length);
 
-    // let's add the assistant response to the messages
-    response.choices.forEach(async (choice) => {
+    // update the counters - before the tools run, as a tool may throw
+    this._updateThreadCount(response);
+    this.lastResponse = response;
+
+    // let's add the assistant response to the messages - awaited so tool results are in the thread before we resolve
+    for (const choice of response.choices) {
       this._addmessages([choice.message]);
 
       // extend the messagethreath with the tool calls
-      const responseMessage = choice.message;
-      const toolCalls = responseMessage.tool_calls;
-      if (toolCalls !== undefined) {
-        if (this.debug) console.log("Tools to call - ", toolCalls);
-
-        this.threadCount.tool_calls += toolCalls.length;
-
-        this._needsToolRun = toolCalls.length > 0;
-
-        // taken from https://platform.openai.com/docs/guides/function-calling
-        for (const toolCall of toolCalls) {
-          const functionName = toolCall.function.name;
-          const functionToCall = this.toolFunctionmap[functionName];
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-
-          if (functionToCall === undefined)
-            throw new Error(`Function ${functionName} is not defined`);
-
-          if (functionToCall !== undefined) {
-            if (this.debug) console.log("Toolcall - calling function", functionName, functionArgs);
-            const functionResponse = await functionToCall(functionArgs.location, functionArgs.unit);
-
-            if (this.debug) console.log("Toolcall - function result", functionName, functionArgs);
-
-            this._addmessages([
-              {
-                tool_call_id: toolCall.id,
-                role: "tool",
-                //@ts-ignore
-                name: functionName,
-                content: functionResponse,
-              },
-            ]);
-          }
-        }
-      }
-    });
-
-    // update the counters
-    this._updateThreadCount(response);
+      const toolCalls = choice.message.tool_calls;
+      if (toolCalls !== undefined) await this._runToolCalls(toolCalls);
+    }
 
     // debug output
     if (this.debug) this._showPromptDebugInfo();
 
-    this.lastResponse = response;
+    return this;
+  }
+
+  /**
+   * Runs the prompt repeatedly - running the requested tools in between - until the assistant gives a final answer.
+   * Each call to the model counts as a round. When the round cap is reached while tools still need to run, a
+   * `ToolRoundLimitError` is thrown, unless `throwOnMaxRounds` is false (then `needsToolRun()` stays true).
+   *
+   * @param modelOptions - Optional parameters for the model, passed to every `runPrompt` call.
+   * @param options - Optional round cap, per-round hook and limit behaviour.
+   * @returns A promise that resolves to the current instance of the class.
+   */
+  async runUntilComplete(
+    modelOptions?: CompletionCreateParamsBaseOptionals,
+    options: RunUntilCompleteOptions = {}
+  ) {
+    const maxRounds = options.maxRounds ?? this.maxToolRounds;
+    const throwOnMaxRounds = options.throwOnMaxRounds ?? true;
+    if (maxRounds < 1) throw new Error("maxRounds must be at least 1");
+
+    let round = 0;
+    do {
+      round++;
+      await this.runPrompt(modelOptions);
+
+      if (this.debug)
+        console.log("runUntilComplete round", round, "needsToolRun", this.needsToolRun());
+      if (options.onRound !== undefined) await options.onRound(round, this);
+    } while (this.needsToolRun() && round < maxRounds);
+
+    if (this.needsToolRun() && throwOnMaxRounds) throw new ToolRoundLimitError(round);
+
     return this;
   }
 
@@ -497,6 +1255,16 @@ export class OpenAIWrapperClass {
     return this._needsToolRun;
   }
 
+  /**
+   * Counts - offline - the prompt tokens the next chat request would use: the messages including their per-message
+   * overhead, image parts and the tool definitions.
+   *
+   * @returns The estimated number of prompt tokens.
+   */
+  estimatePromptTokens(): number {
+    return countMessageTokens(this._buildRequestMessages(), this.model, this.tools);
+  }
+
   /**
    * Retrieves the messages stored in the chat.
    * @returns An array of ChatCompletionMessageParam objects representing the messages.
@@ -505,6 +1273,23 @@ export class OpenAIWrapperClass {
     return this.messages;
   }
 
+  /**
+   * Retrieves the passages the retriever injected into the last chat request, e.g. to show where an answer came from.
+   * Their `citation` is the number the answer cites them by.
+   * @returns The passages, empty when no retriever is set or nothing was found.
+   */
+  getLastResponseSources(): RetrievedPassage[] {
+    return this.lastResponseSources;
+  }
+
+  /**
+   * Retrieves the messages sent with the last chat request, after the context strategy was applied.
+   * @returns An array of ChatCompletionMessageParam objects representing the messages sent.
+   */
+  getLastRequestMessages(): ChatCompletionMessageParam[] {
+    return this.lastRequestMessages;
+  }
+
   /**
    * Returns the last response as a ChatCompletion object.
    * @returns {OpenAI.Chat.Completions.ChatCompletion} The last response as a ChatCompletion object.
@@ -521,6 +1306,82 @@ export class OpenAIWrapperClass {
     return this.getLastResponseAsChatCompletionResult().choices[0].message;
   }
 
+  /**
+   * Runs the prompt in JSON mode and validates the JSON answer against a JSON schema.
+   * The schema is sent to the model as an instruction, without adding it to the messages. When the answer is not
+   * valid, the validation errors are sent back to the model to repair it, up to the configured number of attempts.
+   * Once a repaired answer is valid, the invalid answers and repair requests are removed from the thread; when the
+   * attempts run out, they are kept. Tool calls are run until the assistant gives a final answer, see
+   * `runUntilComplete`.
+   *
+   * @param schema - The JSON schema the answer must match. Written as a literal, the result is typed after it.
+   * @param options - Optional number of repair attempts and model options.
+   * @returns A promise that resolves to the validated answer, also available via `getLastResponseAsStructuredResult`.
+   */
+  async runStructuredPrompt<const S extends JsonSchema>(
+    schema: S,
+    options: StructuredPromptOptions = {}
+  ): Promise<InferJsonSchema<S>> {
+    const maxRepairAttempts = options.maxRepairAttempts ?? this.structuredRepairAttempts;
+    const previousJsonMode = this.json_mode;
+    // the messages from the first invalid answer up to the last repair request
+    let repairStart: number | undefined = undefined;
+    let repairEnd = 0;
+
+    this.lastStructuredResult = undefined;
+    this.json_mode = true;
+    this.structuredOutputSchema = schema;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.runUntilComplete(options.modelOptions);
+
+        const content = this.getLastResponseAsMessageResult().content ?? "";
+        let errors: string[];
+        let value: unknown;
+        try {
+          value = JSON.parse(content);
+          errors = validateJsonSchema(schema, value);
+        } catch (e) {
+          errors = [`The answer is not valid JSON: ${(e as Error).message}`];
+        }
+
+        if (errors.length === 0) {
+          if (repairStart !== undefined)
+            this.setMessages([
+              ...this.messages.slice(0, repairStart),
+              ...this.messages.slice(repairEnd),
+            ]);
+          this.lastStructuredResult = value;
+
+          return value as InferJsonSchema<S>;
+        }
+
+        if (this.debug) console.log("runStructuredPrompt invalid answer", attempt, errors);
+
+        if (attempt >= maxRepairAttempts) throw new StructuredOutputError(errors, content);
+
+        repairStart ??= this.messages.length - 1;
+        const errorList = errors.join("\n");
+        this.appendUserMessage(
+          `Your answer does not match the JSON schema:\n${errorList}\nAnswer again with corrected JSON only.`
+        );
+        repairEnd = this.messages.length;
+      }
+    } finally {
+      this.json_mode = previousJsonMode;
+      this.structuredOutputSchema = undefined;
+    }
+  }
+
+  /**
+   * Returns the validated result of the last `runStructuredPrompt`.
+   * @returns The parsed JSON answer, typed as T.
+   */
+  getLastResponseAsStructuredResult<T = unknown>(): T {
+    return this.lastStructuredResult as T;
+  }
+
   /****************************************************************************************
 
     VISION VISION VISION VISION VISION VISION VISION VISION VISION VISION VISION VISION VISION 
@@ -528,56 +1389,86 @@ export class OpenAIWrapperClass {
   *****************************************************************************************/
 
   /**
-   * Runs a vision prompt using the OpenAI chat completions API.
+   * Runs a vision prompt using the OpenAI chat completions API. The question and its images are appended to the thread
+   * and sent with the previous messages, so follow-up questions about the images work - pass no images for those.
+   * When the question fails, it is removed from the thread again.
+   * The model of the thread is used when it supports vision, otherwise the default vision model of the model registry,
+   * which then becomes the model of the thread - a thread with images needs a vision model for every later request.
+   * The tools and JSON mode of the thread are used like in `runPrompt`, so the vision model must support them.
    *
    * @param text - The text prompt provided by the user.
-   * @param image_url - The URL of the image to be used in the prompt.
+   * @param images - The image(s): http(s) URLs, local file paths or Buffers, see `appendUserMessageWithImages`. Optional
+   * for follow-up questions.
    * @param detail - The level of detail for the image processing. Can be "auto", "low", or "high". Optional.
    * @returns A Promise that resolves to the response from the OpenAI chat completions API.
    */
-  runVisionPrompt(
+  async runVisionPrompt(
     text: string,
-    image_url: string,
-    detail?: "auto" | "low" | "high",
+    images: ImageSource | ImageInput | Array<ImageSource | ImageInput> = [],
+    detail?: ImageDetail,
     modelOptions?: CompletionCreateParamsBaseOptionals
   ) {
-    return this.openai.chat.completions
-      .create({
-        ...modelOptions,
-        model: "gpt-4-vision-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: text },
-              { type: "image_url", image_url: { url: image_url, detail: detail } },
-            ],
-          },
-        ],
-        stream: false,
-        temperature: this.temperature,
-        max_tokens: this.max_tokens,
-      })
-      .then((response) => {
-        // add this completion to the list of received completions
-        this.receivedCompletions.push(response);
-        if (this.debug) console.log("receivedCompletions length", this.receivedCompletions.length);
-
-        // let's add the assistant response to the messages
-        response.choices.forEach(async (choice) => {
-          this._addmessages([choice.message]);
-        });
+    this._requireCapability("vision");
+    this._needsToolRun = false;
+    const threadModel = this.modelRegistry.get(this.model);
+    const model =
+      threadModel === undefined || threadModel.features.includes("vision")
+        ? this.model
+        : this.modelRegistry.getDefault("vision");
+    this._validateModel(model, "chat", ["vision"], modelOptions?.max_tokens ?? this.max_tokens);
+
+    const messageCount = this.messages.length;
+    await this.appendUserMessageWithImages(text, Array.isArray(images) ? images : [images], detail);
+
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      const requestMessages = await this._prepareRequestMessages(modelOptions, ["vision"], {
+        model,
+      });
 
-        // update the counters
-        this._updateThreadCount(response);
+      response = await this._callApi(
+        "runVisionPrompt",
+        this._chatRequest(requestMessages, model, this.tools, modelOptions?.max_tokens),
+        () =>
+          this.openai.chat.completions.create({
+            ...modelOptions,
+            model,
+            messages: requestMessages,
+            stream: false,
+            temperature: this.temperature,
+            response_format: { type: this.json_mode ? "json_object" : "text" },
+            tools: this.tools.length > 0 ? this.tools : undefined,
+            max_tokens: modelOptions?.max_tokens ?? this.max_tokens,
+          })
+      );
+    } catch (e) {
+      // no unanswered question is left in the thread
+      this.setMessages(this.messages.slice(0, messageCount));
+      throw e;
+    }
 
-        // debug output
-        if (this.debug) this._showPromptDebugInfo();
+    if (model !== this.model) this.setModel(model);
 
-        this.lastResponse = response;
+    // add this completion to the list of received completions
+    this.receivedCompletions.push(response);
+    if (this.debug) console.log("receivedCompletions length", this.receivedCompletions.length);
 
-        return this;
-      });
+    // update the counters - before the tools run, as a tool may throw
+    this._updateThreadCount(response, "vision");
+    this.lastResponse = response;
+
+    // let's add the assistant response to the messages, running the tools it calls
+    for (const choice of response.choices) {
+      this._addmessages([choice.message]);
+
+      const toolCalls = choice.message.tool_calls;
+      if (toolCalls !== undefined) await this._runToolCalls(toolCalls);
+    }
+
+    // debug output
+    if (this.debug) this._showPromptDebugInfo();
+
+    return this;
   }
 
   getLastResponseAsVisionResult() {
@@ -592,19 +1483,23 @@ export class OpenAIWrapperClass {
 
   /**
    * Runs an embedding prompt using the OpenAI API.
-   * @param input The input string for the prompt.
-   * @param model The model to use for the embedding. Defaults to "text-embedding-ada-002".
+   * An array of inputs is embedded in batches within the API limits of inputs and tokens per request, e.g. to fill an
+   * `InMemoryVectorStore`; get the embeddings, in the order of the inputs, with `getLastResponseAsEmbeddingsResult`.
+   * @param input The input string for the prompt, or an array of inputs.
+   * @param model The model to use for the embedding. Defaults to the default embedding model of the model registry.
    * @returns A Promise that resolves to the result of the embedding prompt.
    */
-  runEmbeddingPrompt(input: string, model: string = "text-embedding-ada-002") {
-    return this.openai.embeddings.create({ input, model }).then((response) => {
-      this._updateThreadCount(response as unknown as OpenAI.Chat.Completions.ChatCompletion);
-      this._showPromptDebugInfo();
+  async runEmbeddingPrompt(
+    input: string | string[],
+    model: string = this.modelRegistry.getDefault("embedding")
+  ) {
+    this._requireCapability("embeddings");
+    this._validateModel(model, "embedding");
 
-      this.lastResponse = response.data[0].embedding;
+    const embeddings = await this._embed(typeof input === "string" ? [input] : input, model);
+    this.lastResponse = typeof input === "string" ? embeddings[0] : embeddings;
 
-      return this;
-    });
+    return this;
   }
 
   /**
@@ -615,6 +1510,14 @@ export class OpenAIWrapperClass {
     return this.lastResponse as number[];
   }
 
+  /**
+   * Returns the embeddings of the last embedding prompt run with an array of inputs.
+   * @returns The embeddings, in the order of the inputs.
+   */
+  getLastResponseAsEmbeddingsResult() {
+    return this.lastResponse as number[][];
+  }
+
   /****************************************************************************************
 
     SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH SPEECH 
@@ -628,34 +1531,42 @@ export class OpenAIWrapperClass {
    * @see https://platform.openai.com/docs/api-reference/embeddings/create?lang=node.js
    *
    * @param input The input text for the speech prompt.
-   * @param model The model to use for generating the speech. Can be a string or one of the predefined values: "tts-1", "tts-1-hd".
+   * @param model The model to use for generating the speech, e.g. "tts-1" or "tts-1-hd". Defaults to the default speech model of the model registry.
    * @param voice The voice to use for generating the speech. Can be one of the predefined values: "alloy", "echo", "fable", "onyx", "nova", "shimmer".
    * @param response_format (Optional) The format of the speech response. Can be one of the predefined values: "mp3", "opus", "aac", "flac".
    * @param speed (Optional) The speed of the generated speech. A number between 0.1 and 3.0.
    * @returns A Promise that resolves to the speech response.
    */
-  runSpeechPrompt(
+  async runSpeechPrompt(
     input: string,
-    model: (string & {}) | "tts-1" | "tts-1-hd" = "tts-1",
+    model: (string & {}) | "tts-1" | "tts-1-hd" = this.modelRegistry.getDefault("speech"),
     voice: "alloy" | "echo" | "fable" | "onyx" | "nova" | "shimmer" = "alloy",
     response_format: "mp3" | "opus" | "aac" | "flac" = "mp3",
     speed?: number
   ) {
-    return this.openai.audio.speech
-      .create({
+    this._requireCapability("speech");
+    this._validateModel(model, "speech");
+    this._checkBudget({
+      cost: this.costLedger.estimate({ modality: "speech", model, characters: input.length }),
+    });
+
+    return this._callApi("runSpeechPrompt", { model }, () =>
+      this.openai.audio.speech.create({
         input,
         model,
         voice,
         response_format,
         speed,
       })
-      .then((response) => {
-        if (this.debug) console.log("runSpeechPrompt response", response);
+    ).then((response) => {
+      if (this.debug) console.log("runSpeechPrompt response", response);
 
-        this.lastResponse = response;
+      this._recordCost({ modality: "speech", model, characters: input.length });
 
-        return this;
-      });
+      this.lastResponse = response;
+
+      return this;
+    });
   }
 
   /**
@@ -677,6 +1588,171 @@ export class OpenAIWrapperClass {
       .then((arrayBuffer) => Buffer.from(arrayBuffer));
   }
 
+  /**
+   * Turns text of any length into speech, e.g. a blog post into a podcast. The text is split into chunks at sentence
+   * boundaries, the chunks are synthesized in parallel and their audio is joined in order. A failed chunk is retried
+   * on its own with the retry policy, without synthesizing the other chunks again.
+   *
+   * @see https://platform.openai.com/docs/guides/text-to-speech?lang=node
+   *
+   * @param input The input text, paragraphs separated by empty lines.
+   * @param options Optional model, voice, format, speed, chunk size, concurrency, output file or stream and a progress callback.
+   * @returns A Promise that resolves to the current instance of the class, get the audio using `getLastResponseAsLongSpeechResult`.
+   */
+  async runLongSpeechPrompt(input: string, options: LongSpeechOptions = {}) {
+    const {
+      model = this.modelRegistry.getDefault("speech"),
+      voice = "alloy",
+      response_format = "mp3",
+      speed,
+      maxCharacters = SPEECH_MAX_CHARACTERS,
+      concurrency = 4,
+      output,
+      onProgress,
+    } = options;
+    this._requireCapability("speech");
+    this._validateModel(model, "speech");
+
+    const chunks = splitSpeechText(input, maxCharacters);
+    const totalCharacters = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    this._checkBudget({
+      cost: this.costLedger.estimate({ modality: "speech", model, characters: totalCharacters }),
+    });
+
+    const sink = output === undefined ? undefined : openSpeechOutput(output);
+    const audio: Buffer[] = [];
+    // chunks finish in any order, each is written once all chunks before it are
+    const finished: Map<number, Buffer> = new Map();
+    let written = 0;
+    let characters = 0;
+    let bytes = 0;
+    let failed = false;
+    let writing: Promise<void> = Promise.resolve();
+
+    const writeFinished = async () => {
+      while (!failed && finished.has(written)) {
+        const data = finished.get(written)!;
+        finished.delete(written);
+        if (sink === undefined) audio.push(data);
+        else
+          await sink.write(data).catch((error) => {
+            failed = true;
+            throw error;
+          });
+
+        characters += chunks[written].length;
+        bytes += data.length;
+        if (onProgress !== undefined)
+          onProgress({
+            chunk: written,
+            totalChunks: chunks.length,
+            characters,
+            totalCharacters,
+            bytes,
+          });
+        written++;
+      }
+    };
+
+    try {
+      await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+        if (failed) return;
+
+        const label = `runLongSpeechPrompt chunk ${index + 1} of ${chunks.length}`;
+        const data = await this._callApi(label, { model }, async () => {
+          const response = await this.openai.audio.speech.create({
+            input: chunk,
+            model,
+            voice,
+            response_format,
+            speed,
+          });
+
+          // the audio is downloaded within the attempt, so a broken download is retried as well
+          return Buffer.from(await response.arrayBuffer());
+        }).catch((error) => {
+          failed = true;
+          throw error;
+        });
+        // another chunk failed meanwhile, this one is cancelled and its audio dropped
+        if (failed) return;
+        if (this.debug) console.log(label, "response", data.length, "bytes");
+        this._recordCost({ modality: "speech", model, characters: chunk.length });
+
+        finished.set(index, data);
+        writing = writing.then(writeFinished);
+        // waiting for the output holds back the next chunk when it is slower than the API
+        await writing;
+      });
+    } catch (error) {
+      failed = true;
+      if (sink !== undefined) await sink.close(true);
+      throw error;
+    }
+    if (sink !== undefined) await sink.close(false);
+
+    this.lastResponse = {
+      ...(sink === undefined ? { audio: Buffer.concat(audio) } : {}),
+      chunks: chunks.length,
+      characters,
+      bytes,
+    };
+
+    return this;
+  }
+
+  /**
+   * Retrieves the last response as a long speech result: the audio, unless it was written to an output, and the
+   * number of chunks, characters and bytes.
+   *
+   * @returns The last response as a long speech result.
+   */
+  getLastResponseAsLongSpeechResult(): LongSpeechResult {
+    return this.lastResponse as LongSpeechResult;
+  }
+
+  /****************************************************************************************
+
+    TRANSCRIPTION TRANSCRIPTION TRANSCRIPTION TRANSCRIPTION TRANSCRIPTION TRANSCRIPTION TRANSCRIPTION
+
+  *****************************************************************************************/
+
+  /**
+   * Transcribes audio into text in the language of the audio using the OpenAI API.
+   *
+   * @see https://platform.openai.com/docs/guides/speech-to-text
+   *
+   * @param audio The audio: the path of a local file, its bytes or a file. Formats like mp3, mp4, mpeg, mpga, m4a, wav and webm are accepted.
+   * @param options Optional model, language, prompt, temperature, response format and whether to append the text to the thread.
+   * @returns A Promise that resolves to the current instance of the class, get the text using `getLastResponseAsTranscriptionResult`.
+   */
+  async runTranscriptionPrompt(audio: AudioInput, options: TranscriptionOptions = {}) {
+    return this._runAudioPrompt("transcriptions", audio, options);
+  }
+
+  /**
+   * Translates audio into English text using the OpenAI API.
+   *
+   * @see https://platform.openai.com/docs/guides/speech-to-text
+   *
+   * @param audio The audio: the path of a local file, its bytes or a file.
+   * @param options Optional model, prompt (in English), temperature, response format and whether to append the text to the thread.
+   * @returns A Promise that resolves to the current instance of the class, get the text using `getLastResponseAsTranscriptionResult`.
+   */
+  async runAudioTranslationPrompt(audio: AudioInput, options: AudioTranslationOptions = {}) {
+    return this._runAudioPrompt("translations", audio, options);
+  }
+
+  /**
+   * Retrieves the last response as a transcription result: the plain text and, depending on the response format, the
+   * language, duration, segments with timestamps or the subtitles.
+   *
+   * @returns The last response as a transcription result.
+   */
+  getLastResponseAsTranscriptionResult(): TranscriptionResult {
+    return this.lastResponse as TranscriptionResult;
+  }
+
   /****************************************************************************************
 
     MODERATION MODERATION MODERATION MODERATION MODERATION MODERATION MODERATION MODERATION
@@ -686,11 +1762,22 @@ export class OpenAIWrapperClass {
   /**
    * Runs a moderation prompt using the OpenAI API.
    * @param input The input string for the moderation prompt.
+   * @param model The moderation model. Defaults to the default moderation model of the model registry.
    * @returns A Promise that resolves to the moderation prompt response.
    */
-  runModerationPrompt(input: string) {
-    return this.openai.moderations.create({ input }).then((response) => {
+  async runModerationPrompt(
+    input: string,
+    model: string = this.modelRegistry.getDefault("moderation")
+  ) {
+    this._requireCapability("moderation");
+    this._validateModel(model, "moderation");
+    this._checkBudget();
+
+    return this._callApi("runModerationPrompt", { model }, () =>
+      this.openai.moderations.create({ input, model })
+    ).then((response) => {
       if (this.debug) console.log("runModerationPrompt response", response);
+      this._recordCost({ modality: "moderation", model: response.model });
       this.lastResponse = response.results[0];
       return this;
     });
@@ -724,15 +1811,37 @@ export class OpenAIWrapperClass {
    * Runs the image prompt generation using the OpenAI API.
    *
    * @param prompt - The prompt for generating the image.
-   * @param modelOptions - Optional parameters for the image generation.
+   * @param modelOptions - Optional parameters for the image generation. The model defaults to the default image model
+   * of the model registry.
    * @returns A Promise that resolves to the instance of the OpenAIChat class.
    */
-  runImagePrompt(prompt: string, modelOptions: ImageGenerateParamsOptionals) {
-    return this.openai.images.generate({ ...modelOptions, prompt }).then((response) => {
+  async runImagePrompt(prompt: string, modelOptions: ImageGenerateParamsOptionals) {
+    const model = modelOptions.model ?? this.modelRegistry.getDefault("image");
+    this._requireCapability("images");
+    this._validateModel(model, "image");
+    this._checkBudget({
+      cost: this.costLedger.estimate({
+        modality: "image",
+        model,
+        images: modelOptions.n ?? 1,
+        imageVariant: `${modelOptions.quality ?? "standard"} ${modelOptions.size ?? "1024x1024"}`,
+      }),
+    });
+
+    return this._callApi("runImagePrompt", { model }, () =>
+      this.openai.images.generate({ ...modelOptions, model, prompt })
+    ).then((response) => {
       if (this.debug) console.log("runImagePrompt response", response);
 
-      this.lastResponse = response;
-      return this;
+      this._recordCost({
+        modality: "image",
+        model,
+        images: response.data.length,
+        imageVariant: `${modelOptions.quality ?? "standard"} ${modelOptions.size ?? "1024x1024"}`,
+      });
+
+      this.lastResponse = response;
+      return this;
     });
   }
 
@@ -744,6 +1853,144 @@ export class OpenAIWrapperClass {
     return (this.lastResponse as OpenAI.Images.ImagesResponse)?.data[0];
   }
 
+  /****************************************************************************************
+
+    Branching stuff
+
+  *****************************************************************************************/
+
+  /**
+   * Forks the conversation: creates a branch with the messages of the active branch up to `forkIndex`, and switches to
+   * it. The new branch starts without completions and usage of its own, the parent branch stays as it is.
+   *
+   * @param forkIndex - The number of messages to take over, defaults to all of them.
+   * @returns The id of the new branch.
+   */
+  fork(forkIndex: number = this.messages.length): string {
+    if (forkIndex < 0 || forkIndex > this.messages.length)
+      throw new Error(`forkIndex must be between 0 and ${this.messages.length}`);
+
+    const parent = this._syncActiveBranch();
+    const branch: ConversationBranch = {
+      id: `branch-${Object.keys(this.branches).length}`,
+      parentId: parent.id,
+      forkIndex,
+      createdAt: Date.now(),
+      messages: parent.messages.slice(0, forkIndex),
+      receivedCompletions: [],
+      counts: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, tool_calls: 0 },
+      // a pending tool run only carries over when the fork keeps the tool calls
+      needsToolRun: parent.needsToolRun && forkIndex === parent.messages.length,
+    };
+    this.branches[branch.id] = branch;
+    this._setActiveBranch(branch);
+
+    return branch.id;
+  }
+
+  /**
+   * Regenerates the answer to the last user message in a new branch, so the previous answer is kept in its branch.
+   * If the new answer requests tools, check `needsToolRun()` afterwards like with `runPrompt`.
+   *
+   * @param modelOptions - Optional parameters for the model.
+   * @param options - Set `stream` to regenerate using `runPromptStream`.
+   * @returns A promise that resolves to the current instance of the class.
+   */
+  async regenerate(
+    modelOptions?: CompletionCreateParamsBaseOptionals,
+    options: { stream?: boolean } = {}
+  ) {
+    const lastUserIndex = this._findLastUserMessageIndex();
+    if (lastUserIndex === -1)
+      throw new Error("There is no user message to regenerate an answer for");
+
+    this.fork(lastUserIndex + 1);
+    if (options.stream) await this.runPromptStream(modelOptions);
+    else await this.runPrompt(modelOptions);
+
+    return this;
+  }
+
+  /**
+   * Edits a previous user or system message in a new branch, with the messages before it and the edited message.
+   * Continue from there with `runPrompt`; the original conversation is kept in its branch.
+   *
+   * @param index - The index of the message in `getMessages()`.
+   * @param content - The new content of the message.
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  editMessage(index: number, content: string): OpenAIWrapperClass {
+    const message = this.messages[index];
+    if (message === undefined) throw new Error(`There is no message at index ${index}`);
+    if (message.role !== "user" && message.role !== "system")
+      throw new Error(`Only user and system messages can be edited, not ${message.role} messages`);
+
+    this.fork(index);
+    this._addmessages([{ ...message, content } as ChatCompletionMessageParam]);
+
+    return this;
+  }
+
+  /**
+   * Removes the last turn from the active branch: the last user message and everything after it, like the answer and
+   * its tool calls. Usage and completions of the turn stay counted.
+   *
+   * @returns The updated OpenAIWrapperClass instance.
+   */
+  undo(): OpenAIWrapperClass {
+    const lastUserIndex = this._findLastUserMessageIndex();
+    if (lastUserIndex === -1) return this;
+
+    this._needsToolRun = false;
+    this.setMessages(this.messages.slice(0, lastUserIndex));
+
+    return this;
+  }
+
+  /**
+   * Lists the branches of the conversation, the main branch first.
+   * @returns The branches, in the order they were created.
+   */
+  listBranches(): BranchInfo[] {
+    this._syncActiveBranch();
+
+    return Object.values(this.branches).map((branch) => ({
+      id: branch.id,
+      parentId: branch.parentId,
+      forkIndex: branch.forkIndex,
+      createdAt: branch.createdAt,
+      messageCount: branch.messages.length,
+      completionCount: branch.receivedCompletions.length,
+      counts: { ...branch.counts },
+      active: branch.id === this.activeBranchId,
+    }));
+  }
+
+  /**
+   * Returns the id of the active branch, "main" unless the conversation was forked.
+   * @returns The id of the active branch.
+   */
+  getActiveBranchId(): string {
+    return this.activeBranchId;
+  }
+
+  /**
+   * Switches to another branch. Its messages, completions and usage become the ones of the OpenAIWrapperClass.
+   *
+   * @param id - The id of the branch, see `listBranches`.
+   * @returns The updated OpenAIWrapperClass instance.
+   * @throws BranchNotFoundError when there is no branch with the id.
+   */
+  switchBranch(id: string): OpenAIWrapperClass {
+    this._syncActiveBranch();
+
+    const branch = this.branches[id];
+    if (branch === undefined) throw new BranchNotFoundError(id);
+    this._setActiveBranch(branch);
+
+    return this;
+  }
+
   /****************************************************************************************
 
     Serialisation stuff
@@ -751,35 +1998,170 @@ export class OpenAIWrapperClass {
   *****************************************************************************************/
 
   /**
-   * Serializes the OpenAIWrapperClass instance to a JSON string.
-   * @returns A JSON string representing the OpenAIWrapperClass instance.
+   * Returns a versioned snapshot of the conversation: model and settings, tools and all branches with their messages,
+   * counts and received completions. The API key, the client and other runtime handles are never part of it, and neither are the tool
+   * functions - pass them to `restoreSnapshot` again.
+   * @returns A plain object, safe to pass to JSON.stringify.
    */
-  toJSON(): string {
-    // let's iterate through all properties of the class and add them to the JSON
-    const json: { [key: string]: any } = {};
-    for (const key in this) {
-      if (hasOwn(this, key)) {
-        json[key] = this[key];
-      }
+  toSnapshot(): OpenAIWrapperSnapshot {
+    this._syncActiveBranch();
+
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      model: this.model,
+      settings: {
+        json_mode: this.json_mode,
+        temperature: this.temperature,
+        timeout: this.timeout,
+        max_tokens: this.max_tokens,
+        maxToolRounds: this.maxToolRounds,
+        streamUsage: this.streamUsage,
+        preflightCheck: this.preflightCheck,
+        structuredRepairAttempts: this.structuredRepairAttempts,
+        toolErrorPolicy: this.toolErrorPolicy,
+        toolConcurrency: isFinite(this.toolConcurrency) ? this.toolConcurrency : undefined,
+        toolTimeout: this.toolTimeout,
+        toolTimeouts: { ...this.toolTimeouts },
+        debug: this.debug,
+      },
+      tools: [...this.tools],
+      toolArgumentModes: { ...this.toolArgumentModes },
+      cost: this.costLedger.toJSON(),
+      budgetWarningsSent: [...this.budgetWarningsSent],
+      requestCount: this.requestCount,
+      activeBranch: this.activeBranchId,
+      branches: Object.values(this.branches).map((branch) => ({
+        ...branch,
+        messages: [...branch.messages],
+        receivedCompletions: [...branch.receivedCompletions],
+        counts: { ...branch.counts },
+      })),
+    };
+  }
+
+  /**
+   * Restores a snapshot created by `toSnapshot`, migrating older versions first. Runtime configuration like the
+   * provider, transport, retry policy or budget is kept as set on this instance, and so are the prices - the cost
+   * entries are restored as recorded, later calls are priced with the current prices unless `restorePrices` is set.
+   *
+   * @param snapshot - The snapshot, e.g. parsed from JSON.
+   * @param toolFunctions - The tool functions, rebound to the restored tools by name.
+   * @param options - Whether to restore the prices saved in the snapshot.
+   * @returns The updated OpenAIWrapperClass instance.
+   * @throws SnapshotVersionError when the snapshot was written by a newer version.
+   */
+  restoreSnapshot(
+    snapshot: unknown,
+    toolFunctions: Record<string, Function> = {},
+    options: RestoreSnapshotOptions = {}
+  ): OpenAIWrapperClass {
+    const { settings, ...state } = migrateSnapshot(snapshot);
+
+    this.model = state.model;
+    this.json_mode = settings.json_mode;
+    this.temperature = settings.temperature;
+    this.timeout = settings.timeout;
+    this.max_tokens = settings.max_tokens;
+    this.maxToolRounds = settings.maxToolRounds;
+    this.streamUsage = settings.streamUsage;
+    this.preflightCheck = settings.preflightCheck;
+    this.structuredRepairAttempts = settings.structuredRepairAttempts;
+    this.toolErrorPolicy = settings.toolErrorPolicy;
+    this.toolConcurrency = settings.toolConcurrency ?? Infinity;
+    this.toolTimeout = settings.toolTimeout;
+    this.toolTimeouts = { ...settings.toolTimeouts };
+    this.debug = settings.debug;
+
+    this.tools = [...state.tools];
+    this.toolArgumentModes = { ...state.toolArgumentModes };
+    this.toolFunctionmap = { ...this.toolFunctionmap, ...toolFunctions };
+    this.costLedger = CostLedger.fromJSON({
+      entries: state.cost.entries,
+      prices: options.restorePrices ? state.cost.prices : this.costLedger.toJSON().prices,
+    });
+    this.budgetWarningsSent = [...state.budgetWarningsSent];
+    this.requestCount = state.requestCount ?? state.cost.entries.length;
+
+    this.branches = {};
+    for (const branch of state.branches) {
+      this.branches[branch.id] = {
+        ...branch,
+        messages: [...branch.messages],
+        receivedCompletions: [...branch.receivedCompletions],
+        counts: { ...branch.counts },
+      };
+    }
+    const activeBranch = this.branches[state.activeBranch];
+    if (activeBranch === undefined) throw new BranchNotFoundError(state.activeBranch);
+    this._setActiveBranch(activeBranch);
+
+    if (this.debug) {
+      const unbound = this.tools
+        .map((tool) => tool.function.name)
+        .filter((name) => this.toolFunctionmap[name] === undefined);
+      if (unbound.length > 0)
+        console.log(`Restored tools without a function: ${unbound.join(", ")}`);
     }
-    return JSON.stringify(json, null, 2);
+
+    return this;
+  }
+
+  /**
+   * Saves a snapshot of the conversation to a storage.
+   *
+   * @param storage - The storage, e.g. `new FileSnapshotStorage("./sessions")`.
+   * @param id - The id to save the snapshot under, e.g. a session id.
+   */
+  async saveSnapshot(storage: SnapshotStorage, id: string): Promise<void> {
+    await storage.save(id, this.toSnapshot());
+  }
+
+  /**
+   * Loads a snapshot from a storage and restores it, see `restoreSnapshot`.
+   *
+   * @param storage - The storage the snapshot was saved to.
+   * @param id - The id the snapshot was saved under.
+   * @param toolFunctions - The tool functions, rebound to the restored tools by name.
+   * @param options - Whether to restore the prices saved in the snapshot.
+   * @returns The updated OpenAIWrapperClass instance.
+   * @throws SnapshotNotFoundError when there is no snapshot with this id.
+   */
+  async loadSnapshot(
+    storage: SnapshotStorage,
+    id: string,
+    toolFunctions: Record<string, Function> = {},
+    options: RestoreSnapshotOptions = {}
+  ): Promise<OpenAIWrapperClass> {
+    const snapshot = await storage.load(id);
+    if (snapshot === undefined) throw new SnapshotNotFoundError(id);
+
+    return this.restoreSnapshot(snapshot, toolFunctions, options);
+  }
+
+  /**
+   * Serializes the conversation to a JSON string, see `toSnapshot`.
+   * @returns A JSON string of the snapshot.
+   */
+  toJSON(): string {
+    return JSON.stringify(this.toSnapshot(), null, 2);
   }
 
   /**
-   * Parses a JSON string and sets the properties of the class based on the JSON data.
-   * Only properties that exist in both the JSON and the class will be set.
+   * Parses a JSON string created by `toJSON` and restores it, see `restoreSnapshot`. JSON of older versions, without
+   * a version field, is migrated.
    * @param jsonString The JSON string to parse.
+   * @param toolFunctions The tool functions, rebound to the restored tools by name.
+   * @param options Whether to restore the prices saved in the snapshot.
    * @returns An object indicating the success of the operation. If successful, success will be true. If unsuccessful, success will be false and error will contain the error message.
    */
-  fromJSON(jsonString: string): { success: false; error: any } | { success: true } {
-    // let's only set the properties that are in the JSON and in the class
+  fromJSON(
+    jsonString: string,
+    toolFunctions: Record<string, Function> = {},
+    options: RestoreSnapshotOptions = {}
+  ): { success: false; error: any } | { success: true } {
     try {
-      const json = JSON.parse(jsonString);
-      for (const key in json) {
-        if (hasOwn(json, key) && hasOwn(this, key)) {
-          this[key as keyof OpenAIWrapperClass] = json[key];
-        } else return { success: false, error: `Property ${key} is not defined in the class` };
-      }
+      this.restoreSnapshot(JSON.parse(jsonString), toolFunctions, options);
     } catch (e) {
       return { success: false, error: e };
     }
@@ -792,6 +2174,516 @@ export class OpenAIWrapperClass {
 
   *****************************************************************************************/
 
+  /**
+   * Builds the messages to send with a chat request. These can differ from `this.messages`, e.g. the structured output
+   * instruction is only sent, never stored in the thread.
+   *
+   * @returns The messages to send.
+   */
+  protected _buildRequestMessages(): ChatCompletionMessageParam[] {
+    if (this.structuredOutputSchema === undefined) return this.messages;
+
+    return [
+      ...this.messages,
+      {
+        role: "system",
+        content: `Answer only with a JSON object that matches this JSON schema:\n${JSON.stringify(
+          this.structuredOutputSchema
+        )}`,
+      },
+    ];
+  }
+
+  /**
+   * Prepares the messages for a chat request: builds them, applies the context strategy and runs the preflight check.
+   *
+   * @param modelOptions - The model options of the request, which may override max_tokens.
+   * @param features - Model features the request needs besides the ones following from the settings, e.g. streaming.
+   * @param request - The model, tools and JSON mode of the request, if they differ from the settings (e.g. for vision).
+   * @returns A promise resolving to the messages to send.
+   */
+  protected async _prepareRequestMessages(
+    modelOptions?: CompletionCreateParamsBaseOptionals,
+    features: ModelFeature[] = [],
+    {
+      model = this.model,
+      tools = this.tools,
+      json_mode = this.json_mode,
+    }: { model?: string; tools?: ChatCompletionTool[]; json_mode?: boolean } = {}
+  ): Promise<ChatCompletionMessageParam[]> {
+    this._requireCapability("chat");
+    if (tools.length > 0) this._requireCapability("tools");
+    if (json_mode) this._requireCapability("jsonMode");
+
+    // images stay in the thread, so follow-up questions need a vision model too
+    const hasImages = hasImageParts(this.messages);
+    if (hasImages) this._requireCapability("vision");
+
+    if (tools.length > 0) features = [...features, "tools"];
+    if (json_mode) features = [...features, "json_object"];
+    if (hasImages) features = [...features, "vision"];
+    if (modelOptions?.seed !== undefined && modelOptions.seed !== null)
+      features = [...features, "seed"];
+    this._validateModel(model, "chat", features, modelOptions?.max_tokens ?? this.max_tokens);
+
+    let requestMessages = this._buildRequestMessages();
+
+    // retrieved before the context strategy runs, so it can leave room for the context block
+    this.lastResponseSources = [];
+    const retrieved =
+      this.retriever !== undefined
+        ? await this._retrieveContext(requestMessages, this.retriever)
+        : undefined;
+
+    if (this.contextStrategy !== undefined) {
+      requestMessages = await this.contextStrategy(requestMessages, {
+        model,
+        tools,
+        maxTokens: modelOptions?.max_tokens ?? this.max_tokens ?? 0,
+        contextWindow: this.modelRegistry.get(model)?.contextWindow,
+        reservedTokens:
+          retrieved === undefined
+            ? 0
+            : countMessageTokens([retrieved.block], model) - countMessageTokens([], model),
+        complete: (messages) => this._completeOutsideThread(messages, model, modelOptions),
+      });
+
+      if (this.debug)
+        console.log(
+          "Context strategy",
+          this.messages.length,
+          "->",
+          requestMessages.length,
+          "messages"
+        );
+    }
+
+    if (retrieved !== undefined)
+      requestMessages = this._insertRetrievedContext(requestMessages, retrieved);
+
+    this._preflightCheck(requestMessages, modelOptions, model, tools);
+    if (this.budget !== undefined)
+      this._checkBudget(
+        this._projectChatUsage(
+          countMessageTokens(requestMessages, model, tools),
+          modelOptions?.max_tokens ?? this.max_tokens ?? 0,
+          model
+        )
+      );
+    this.lastRequestMessages = requestMessages;
+
+    return requestMessages;
+  }
+
+  /**
+   * Runs a transcription or translation, see `runTranscriptionPrompt` and `runAudioTranslationPrompt`.
+   *
+   * @param endpoint - "transcriptions" or "translations".
+   * @param audio - The audio to transcribe or translate.
+   * @param options - The options of the request.
+   * @returns A promise that resolves to the current instance of the class.
+   */
+  protected async _runAudioPrompt(
+    endpoint: "transcriptions" | "translations",
+    audio: AudioInput,
+    options: TranscriptionOptions
+  ) {
+    const {
+      model = this.modelRegistry.getDefault("transcription"),
+      language,
+      response_format = "json",
+      filename,
+      appendAsUserMessage = false,
+      ...params
+    } = options;
+    this._requireCapability("transcription");
+    this._validateModel(model, "transcription");
+    this._checkBudget();
+
+    const label =
+      endpoint === "transcriptions" ? "runTranscriptionPrompt" : "runAudioTranslationPrompt";
+    // audio is billed per minute, but only verbose_json and subtitles tell the duration - so json and text are
+    // requested as verbose_json and reduced to the format asked for
+    const requestFormat =
+      response_format === "json" || response_format === "text" ? "verbose_json" : response_format;
+    const response: unknown = await this._callApi(label, { model }, async () => {
+      // a read stream is used up by a request, so every attempt opens the audio again
+      const file = await toAudioFile(audio, filename);
+
+      return endpoint === "transcriptions"
+        ? this.openai.audio.transcriptions.create({
+            ...params,
+            file,
+            model,
+            language,
+            response_format: requestFormat,
+          })
+        : this.openai.audio.translations.create({
+            ...params,
+            file,
+            model,
+            response_format: requestFormat,
+          });
+    });
+
+    // the API sends plain text for "srt" and "vtt", the SDK passes it on as a string
+    const received = toTranscriptionResult(response, requestFormat);
+    const result: TranscriptionResult =
+      requestFormat === response_format
+        ? received
+        : { text: received.text.trim(), format: response_format };
+    if (this.debug) console.log(`${label} result`, result);
+
+    // the subtitles end with the audio, near enough
+    const seconds = received.duration ?? received.segments?.[received.segments.length - 1]?.end;
+    this._recordCost({ modality: "transcription", model, seconds });
+    if (appendAsUserMessage) this.appendUserMessage(result.text);
+
+    this.lastResponse = result;
+
+    return this;
+  }
+
+  /**
+   * Retrieves the passages for the latest user message and formats them as a context block.
+   *
+   * @param requestMessages - The messages about to be sent.
+   * @param retriever - The retriever finding the passages.
+   * @returns A promise resolving to the user message, its passages and the context block; undefined without passages.
+   */
+  protected async _retrieveContext(
+    requestMessages: ChatCompletionMessageParam[],
+    retriever: Retriever
+  ): Promise<RetrievedContext | undefined> {
+    let index = requestMessages.length - 1;
+    while (index >= 0 && requestMessages[index].role !== "user") index--;
+    if (index === -1) return undefined;
+
+    const message = requestMessages[index];
+    let passages = this.retrievalCache.get(message);
+
+    if (passages === undefined) {
+      // the text parts of a message with images
+      const content = message.content;
+      const text =
+        typeof content === "string"
+          ? content
+          : (content ?? [])
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .filter((partText) => partText !== "")
+              .join("\n");
+      if (text.trim() === "") return undefined;
+
+      const { topK = 4, embeddingModel = this.modelRegistry.getDefault("embedding") } =
+        this.retrievalOptions;
+      this._requireCapability("embeddings");
+      this._validateModel(embeddingModel, "embedding");
+
+      const [embedding] = await this._embed([text], embeddingModel, "retrieval");
+      passages = (await retriever({ text, embedding, topK }))
+        .slice(0, topK)
+        .map((passage, i) => ({ ...passage, citation: i + 1 }));
+      this.retrievalCache.set(message, passages);
+      if (this.debug)
+        console.log(
+          "Retrieved passages",
+          passages.map((passage) => passage.id)
+        );
+    }
+    if (passages.length === 0) return undefined;
+
+    const { formatContext = formatContextWithCitations } = this.retrievalOptions;
+
+    return { message, passages, block: { role: "system", content: formatContext(passages) } };
+  }
+
+  /**
+   * Inserts the context block with the retrieved passages right before the user message they were retrieved for.
+   *
+   * @param requestMessages - The messages about to be sent.
+   * @param context - The retrieved context.
+   * @returns The messages with the context block, unchanged when the context strategy left out the user message.
+   */
+  protected _insertRetrievedContext(
+    requestMessages: ChatCompletionMessageParam[],
+    context: RetrievedContext
+  ): ChatCompletionMessageParam[] {
+    const index = requestMessages.indexOf(context.message);
+    if (index === -1) return requestMessages;
+
+    this.lastResponseSources = context.passages;
+
+    return [...requestMessages.slice(0, index), context.block, ...requestMessages.slice(index)];
+  }
+
+  /**
+   * Embeds texts in batches within the API limits, counting the usage in the thread.
+   *
+   * @param inputs - The texts to embed.
+   * @param model - The embedding model.
+   * @param label - The name of the operation, for the debug output.
+   * @returns A promise resolving to the embeddings, in the order of the inputs.
+   */
+  protected async _embed(
+    inputs: string[],
+    model: string,
+    label: string = "runEmbeddingPrompt"
+  ): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const batch of batchEmbeddingInputs(inputs, model)) {
+      if (this.budget !== undefined) {
+        this._checkBudget({
+          tokens: batch.tokens,
+          cost: this.costLedger.estimate({
+            modality: "embedding",
+            model,
+            prompt_tokens: batch.tokens,
+          }),
+        });
+      }
+
+      const response = await this._callApi(label, { model, tokens: () => batch.tokens }, () =>
+        this.openai.embeddings.create({ input: batch.inputs, model })
+      );
+
+      // the response names a model revision (e.g. "-v2"), so we price the requested model
+      this._updateThreadCount({ model, usage: response.usage }, "embedding");
+      if (this.debug) this._showPromptDebugInfo();
+
+      // the data is not guaranteed to be in the order of the inputs
+      for (const data of response.data) embeddings[batch.offset + data.index] = data.embedding;
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Creates the SDK client for the provider and transport.
+   * @returns The client.
+   */
+  protected _createClient(): OpenAI {
+    // retries are done by the wrapper, see setRetryPolicy
+    return this.provider.createClient({ maxRetries: 0, fetch: this.transport });
+  }
+
+  /**
+   * Checks a model against the model registry: its modality, features and output limit.
+   *
+   * @param model - The model about to be used.
+   * @param modality - The modality it is used with.
+   * @param features - The features the request needs.
+   * @param maxTokens - The max_tokens of the request, if any.
+   * @throws ModelCapabilityError when the model does not fit the request.
+   */
+  protected _validateModel(
+    model: string,
+    modality: ModelModality,
+    features: ModelFeature[] = [],
+    maxTokens?: number | null
+  ) {
+    this.modelRegistry.validate(model, modality, features);
+
+    const maxOutputTokens = this.modelRegistry.get(model)?.maxOutputTokens;
+    if (maxTokens && maxOutputTokens !== undefined && maxTokens > maxOutputTokens)
+      throw new ModelCapabilityError(
+        model,
+        `max_tokens of ${maxTokens}, at most ${maxOutputTokens}`
+      );
+  }
+
+  /**
+   * Throws an `UnsupportedCapabilityError` when the provider does not support a capability.
+   *
+   * @param capability - The capability the call needs.
+   */
+  protected _requireCapability(capability: ProviderCapability) {
+    if (!this.supports(capability))
+      throw new UnsupportedCapabilityError(this.provider.name, capability);
+  }
+
+  /**
+   * Runs an API call with the retry policy, logging every attempt in debug mode. When a rate-limit scheduler is set,
+   * every attempt waits for its turn first.
+   *
+   * @param label - The name of the call, for the debug output.
+   * @param request - The model of the call and, for the scheduler, a function estimating its tokens.
+   * @param fn - The API call.
+   * @param canRetry - Optional extra check whether a failed attempt may be retried.
+   * @returns A promise resolving to the result of the first successful attempt.
+   */
+  protected _callApi<T>(
+    label: string,
+    request: { model: string; tokens?: () => number },
+    fn: () => Promise<T>,
+    canRetry?: () => boolean
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+    const scheduler = this.rateLimitScheduler;
+    const tokens = scheduler !== undefined && request.tokens !== undefined ? request.tokens() : 0;
+
+    const attemptFn = async (attempt: number) => {
+      if (scheduler !== undefined) {
+        const queuedAt = Date.now();
+        await scheduler.acquire(request.model, tokens, this.rateLimitPriority);
+        if (this.debug)
+          console.log("API call", label, "waited", Date.now() - queuedAt, "ms for the rate limit");
+      }
+
+      if (this.debug)
+        console.log("API call", label, "attempt", attempt, "of", policy?.maxAttempts ?? 1);
+      // counted once the attempt is over, a stream checks its budget with itself as the next request
+      return fn().then(
+        (result) => {
+          this.requestCount++;
+          return result;
+        },
+        (error) => {
+          this.requestCount++;
+          // the SDK reports every transport error as a connection error - a replay mismatch is no reason to retry
+          const cause =
+            error instanceof OpenAI.APIConnectionError
+              ? (error as { cause?: unknown }).cause
+              : undefined;
+          throw cause instanceof CassetteMismatchError ? cause : error;
+        }
+      );
+    };
+
+    if (policy === undefined) return attemptFn(1);
+
+    return withRetry(
+      label,
+      attemptFn,
+      {
+        ...policy,
+        onRetry: (info) => {
+          if (this.debug)
+            console.log("API call failed, retrying", label, "in", info.delayMs, "ms", info.error);
+          if (policy.onRetry !== undefined) policy.onRetry(info);
+        },
+      },
+      canRetry
+    );
+  }
+
+  /**
+   * Describes a chat request for the rate-limit scheduler: the estimated prompt tokens plus `max_tokens`.
+   *
+   * @param messages - The messages about to be sent.
+   * @param model - The model of the request.
+   * @param tools - The tool definitions sent with the request.
+   * @param maxTokens - The `max_tokens` of the request when it overrides the one of the thread.
+   * @returns The request, for `_callApi`.
+   */
+  protected _chatRequest(
+    messages: ChatCompletionMessageParam[],
+    model: string = this.model,
+    tools: ChatCompletionTool[] = [],
+    maxTokens?: number | null
+  ) {
+    return {
+      model,
+      tokens: () =>
+        countMessageTokens(messages, model, tools) + (maxTokens ?? this.max_tokens ?? 0),
+    };
+  }
+
+  /**
+   * Runs a chat completion that is not part of the thread, e.g. to summarize it. The usage is counted in the thread.
+   *
+   * @param messages - The messages to send.
+   * @param model - The model of the request being prepared.
+   * @param modelOptions - The model options of the request being prepared.
+   * @returns A promise resolving to the content of the answer.
+   */
+  protected async _completeOutsideThread(
+    messages: ChatCompletionMessageParam[],
+    model: string = this.model,
+    modelOptions?: CompletionCreateParamsBaseOptionals
+  ): Promise<string> {
+    this._requireCapability("chat");
+    const maxTokens = modelOptions?.max_tokens ?? this.max_tokens;
+    if (this.budget !== undefined)
+      this._checkBudget(
+        this._projectChatUsage(countMessageTokens(messages, model), maxTokens ?? 0, model)
+      );
+
+    const response = await this._callApi(
+      "completeOutsideThread",
+      this._chatRequest(messages, model, [], maxTokens),
+      () =>
+        this.openai.chat.completions.create({
+          ...modelOptions,
+          messages,
+          model,
+          stream: false,
+          temperature: this.temperature,
+          max_tokens: maxTokens,
+        })
+    );
+
+    this._updateThreadCount(response);
+
+    return response.choices[0]?.message.content ?? "";
+  }
+
+  /**
+   * Checks whether the request fits in the context window of the model, given the maximum number of tokens to generate.
+   * Depending on the preflight check setting, it does nothing, warns or throws a `ContextWindowExceededError`.
+   *
+   * @param requestMessages - The messages about to be sent.
+   * @param modelOptions - The model options of the request, which may override max_tokens.
+   * @param model - The model of the request.
+   * @param tools - The tools sent with the request.
+   */
+  protected _preflightCheck(
+    requestMessages: ChatCompletionMessageParam[],
+    modelOptions?: CompletionCreateParamsBaseOptionals,
+    model: string = this.model,
+    tools: ChatCompletionTool[] = this.tools
+  ) {
+    if (this.preflightCheck === "off") return;
+
+    const contextWindow = this.modelRegistry.get(model)?.contextWindow;
+    if (contextWindow === undefined) return;
+
+    const promptTokens = countMessageTokens(requestMessages, model, tools);
+    const maxTokens = modelOptions?.max_tokens ?? this.max_tokens ?? 0;
+    if (promptTokens + maxTokens <= contextWindow) return;
+
+    const error = new ContextWindowExceededError(promptTokens, maxTokens, contextWindow);
+    if (this.preflightCheck === "error") throw error;
+
+    console.warn(error.message);
+  }
+
+  /**
+   * Estimates the usage of a streamed completion, for when the API does not report it.
+   *
+   * @param requestMessages - The messages that were sent.
+   * @param content - The streamed content.
+   * @param toolCalls - The streamed tool calls.
+   * @returns The estimated usage.
+   */
+  protected _estimateStreamUsage(
+    requestMessages: ChatCompletionMessageParam[],
+    content: string,
+    toolCalls: Array<OpenAI.Chat.Completions.ChatCompletionMessageToolCall>
+  ): OpenAI.Completions.CompletionUsage {
+    const prompt_tokens = countMessageTokens(requestMessages, this.model, this.tools);
+    const completion_tokens =
+      countTokens(content, this.model) +
+      toolCalls.reduce(
+        (sum, toolCall) =>
+          sum +
+          countTokens(toolCall.function.name, this.model) +
+          countTokens(toolCall.function.arguments, this.model),
+        0
+      );
+
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+
   /**
    * Displays debug information about the prompt.
    */
@@ -802,17 +2694,526 @@ export class OpenAIWrapperClass {
   }
 
   /**
-   * Updates the thread count based on the response from OpenAI Chat API.
-   * @param response The response object from OpenAI Chat API.
+   * Runs the tool calls requested in an assistant message and adds the results to the thread.
+   *
+   * @param toolCalls - The tool calls of the assistant message.
+   */
+  protected async _runToolCalls(
+    toolCalls: Array<OpenAI.Chat.Completions.ChatCompletionMessageToolCall>
+  ) {
+    if (this.debug) console.log("Tools to call - ", toolCalls);
+
+    this.threadCount.tool_calls += toolCalls.length;
+    this._checkBudgetWarnings();
+
+    this._needsToolRun = toolCalls.length > 0;
+
+    // taken from https://platform.openai.com/docs/guides/function-calling
+    // the calls run in parallel, the results are added in the order of the tool calls
+    let failed = false;
+    let failure: unknown;
+    const toolMessages = await mapWithConcurrency(
+      toolCalls,
+      this.toolConcurrency,
+      async (toolCall) => {
+        // the thread must answer every tool call, even when we rethrow - otherwise it cannot be run again
+        if (failed)
+          return this._makeToolMessage(toolCall, {
+            error: "Not run because another tool call failed",
+          });
+
+        try {
+          return await this._runToolCall(toolCall);
+        } catch (e) {
+          // anything thrown unexpectedly goes through the tool error policy as well
+          if (this.toolErrorPolicy === "throw") {
+            if (!failed) failure = e;
+            failed = true;
+          }
+
+          return this._makeToolMessage(toolCall, this._serializeToolError(e));
+        }
+      }
+    );
+
+    this._addmessages(toolMessages);
+
+    if (failed) throw failure;
+  }
+
+  /**
+   * Runs the JS function mapped to a tool call and returns the `tool` message with its result.
+   * The arguments are parsed and validated against the `parameters` schema of the tool; invalid arguments
+   * never reach the JS function but are reported back to the model as the tool result.
+   * A missing function, an exception, a timeout or a failing approver is reported to the model as well, unless the tool error
+   * policy is "throw" - then a `ToolCallError` is thrown.
+   *
+   * @param toolCall - The tool call requested by the assistant.
+   * @returns A promise that resolves to the tool message to add to the thread.
+   */
+  protected async _runToolCall(
+    toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall
+  ): Promise<ChatCompletionToolMessageParam> {
+    const functionName = toolCall.function.name;
+
+    let functionArgs: unknown;
+    try {
+      functionArgs = JSON.parse(toolCall.function.arguments || "{}");
+    } catch (e) {
+      if (this.debug) console.log("Toolcall - arguments are not valid JSON", functionName, e);
+
+      return this._makeToolMessage(toolCall, {
+        error: `Arguments for ${functionName} are not valid JSON`,
+      });
+    }
+
+    const parameters = this._getToolParameters(functionName);
+    const errors = parameters !== undefined ? validateJsonSchema(parameters, functionArgs) : [];
+    if (errors.length > 0) {
+      if (this.debug) console.log("Toolcall - invalid arguments", functionName, errors);
+
+      return this._makeToolMessage(toolCall, {
+        error: `Invalid arguments for ${functionName}`,
+        details: errors,
+      });
+    }
+
+    // ask for approval - the approver may also edit the arguments
+    let decision: ToolApprovalDecision | undefined;
+    try {
+      decision = await this._requestToolApproval({
+        toolCallId: toolCall.id,
+        toolName: functionName,
+        args: functionArgs,
+      });
+    } catch (e) {
+      if (this.debug) console.log("Toolcall - approval failed", functionName, e);
+
+      if (this.toolErrorPolicy === "throw") throw new ToolCallError(functionName, toolCall.id, e);
+
+      const { error, name } = this._serializeToolError(e);
+      return this._makeToolMessage(toolCall, {
+        error: `The approval of ${functionName} failed: ${error}`,
+        name,
+      });
+    }
+    if (decision !== undefined) {
+      if (!decision.approved) {
+        if (this.debug) console.log("Toolcall - rejected", functionName, decision.reason);
+
+        return this._makeToolMessage(toolCall, {
+          error: `The call to ${functionName} was rejected`,
+          reason: decision.reason,
+        });
+      }
+
+      if (decision.args !== undefined) {
+        functionArgs = decision.args;
+        const editedErrors =
+          parameters !== undefined ? validateJsonSchema(parameters, functionArgs) : [];
+        if (editedErrors.length > 0)
+          return this._makeToolMessage(toolCall, {
+            error: `Invalid edited arguments for ${functionName}`,
+            details: editedErrors,
+          });
+      }
+    }
+
+    try {
+      const functionToCall = this.toolFunctionmap[functionName];
+      if (functionToCall === undefined) throw new Error(`Function ${functionName} is not defined`);
+
+      if (this.debug) console.log("Toolcall - calling function", functionName, functionArgs);
+
+      const args =
+        (this.toolArgumentModes[functionName] ?? "positional") === "positional" &&
+        parameters !== undefined
+          ? Object.keys(parameters.properties ?? {}).map(
+              (key) => (functionArgs as Record<string, unknown>)[key]
+            )
+          : [functionArgs];
+      const functionResponse = await this._withToolTimeout(
+        functionName,
+        Promise.resolve(functionToCall(...args))
+      );
+
+      if (this.debug) console.log("Toolcall - function result", functionName, functionResponse);
+
+      return this._makeToolMessage(toolCall, functionResponse);
+    } catch (e) {
+      if (this.debug) console.log("Toolcall - function failed", functionName, e);
+
+      if (this.toolErrorPolicy === "throw") throw new ToolCallError(functionName, toolCall.id, e);
+
+      return this._makeToolMessage(toolCall, this._serializeToolError(e));
+    }
+  }
+
+  /**
+   * Asks the approver of the tool - if any - whether the tool call may run. While waiting, the request is listed in the pending approvals.
+   *
+   * @param request - The tool call to approve.
+   * @returns A promise resolving to the decision, or undefined when the tool needs no approval.
+   */
+  protected async _requestToolApproval(
+    request: ToolApprovalRequest
+  ): Promise<ToolApprovalDecision | undefined> {
+    const approval = this.toolApprovals[request.toolName] ?? this.toolApproval;
+    if (approval === undefined) return undefined;
+
+    // register the resolver before announcing the request, so it can be resolved right away
+    const manualDecision =
+      approval === "manual"
+        ? new Promise<ToolApprovalDecision | boolean>((resolve) => {
+            this.approvalResolvers[request.toolCallId] = resolve;
+          })
+        : undefined;
+    this._setPendingApprovals([...this.pendingApprovals, request]);
+
+    try {
+      const decision =
+        manualDecision !== undefined
+          ? await manualDecision
+          : await (approval as Exclude<ToolApproval, "manual">)(request);
+
+      return typeof decision === "boolean" ? { approved: decision } : decision;
+    } finally {
+      delete this.approvalResolvers[request.toolCallId];
+      this._setPendingApprovals(this.pendingApprovals.filter((pending) => pending !== request));
+    }
+  }
+
+  /**
+   * Stores the state of the active branch in its branch record, creating the record of the main branch on first use.
+   * @returns The record of the active branch.
    */
-  protected _updateThreadCount(response: OpenAI.Chat.Completions.ChatCompletion) {
-    if (response.usage !== undefined) {
+  protected _syncActiveBranch(): ConversationBranch {
+    const branch: ConversationBranch = this.branches[this.activeBranchId] ?? {
+      id: this.activeBranchId,
+      forkIndex: 0,
+      createdAt: Date.now(),
+      messages: [],
+      receivedCompletions: [],
+      counts: this.threadCount,
+      needsToolRun: false,
+    };
+    branch.messages = this.messages;
+    branch.receivedCompletions = this.receivedCompletions;
+    branch.counts = this.threadCount;
+    branch.needsToolRun = this._needsToolRun;
+    this.branches[branch.id] = branch;
+
+    return branch;
+  }
+
+  /**
+   * Makes a branch the active one. Overridden in the subclasses to emit the change.
+   *
+   * @param branch - The branch to activate.
+   */
+  protected _setActiveBranch(branch: ConversationBranch) {
+    this.activeBranchId = branch.id;
+    this.receivedCompletions = branch.receivedCompletions;
+    this.threadCount = branch.counts;
+    this._needsToolRun = branch.needsToolRun;
+    // through setMessages, so subclasses publish the messages of the active branch
+    this.setMessages(branch.messages);
+  }
+
+  /**
+   * Finds the last message with role `user` in the active branch.
+   * @returns Its index, or -1 if there is none.
+   */
+  protected _findLastUserMessageIndex(): number {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      if (this.messages[i].role === "user") return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Sets the list of tool calls waiting for approval. Overridden in the subclasses to emit the changes.
+   *
+   * @param pendingApprovals - The tool calls waiting for approval.
+   */
+  protected _setPendingApprovals(pendingApprovals: ToolApprovalRequest[]) {
+    this.pendingApprovals = pendingApprovals;
+  }
+
+  /**
+   * Rejects when the tool does not settle within its timeout.
+   *
+   * @param name - The name of the tool, used to look up a tool specific timeout.
+   * @param promise - The result of the tool function.
+   * @returns The promise racing against the timeout, or the promise itself if no timeout applies.
+   */
+  protected _withToolTimeout<T>(name: string, promise: Promise<T>): Promise<T> {
+    const timeout = this.toolTimeouts[name] ?? this.toolTimeout;
+    if (timeout === undefined) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Tool ${name} timed out after ${timeout} ms`)),
+        timeout
+      );
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Creates the `tool` message answering a tool call.
+   *
+   * @param toolCall - The tool call to answer.
+   * @param result - The result of the tool, serialized to JSON when it is not a string.
+   * @returns The tool message.
+   */
+  protected _makeToolMessage(
+    toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+    result: unknown
+  ): ChatCompletionToolMessageParam {
+    return {
+      tool_call_id: toolCall.id,
+      role: "tool",
+      //@ts-ignore
+      name: toolCall.function.name,
+      content: typeof result === "string" ? result : JSON.stringify(result),
+    };
+  }
+
+  /**
+   * Turns an error thrown while running a tool into a result the model can read.
+   *
+   * @param error - The error that was thrown.
+   * @returns An object describing the error.
+   */
+  protected _serializeToolError(error: unknown): { error: string; name?: string } {
+    const cause = error instanceof ToolCallError ? error.cause : error;
+    if (cause instanceof Error) return { error: cause.message, name: cause.name };
+
+    return { error: String(cause) };
+  }
+
+  /**
+   * Looks up the parameters schema of a registered tool.
+   *
+   * @param name - The name of the tool.
+   * @returns The JSON schema of the parameters, or undefined if the tool is unknown or has no parameters.
+   */
+  protected _getToolParameters(name: string): JsonSchema | undefined {
+    const tool = this.tools.find((tool) => tool.function.name === name);
+
+    return tool?.function.parameters as JsonSchema | undefined;
+  }
+
+  /**
+   * Updates the thread count and the cost ledger based on the usage in a response from the OpenAI API.
+   * @param response The response object from the OpenAI API, e.g. a chat completion or embedding response.
+   * @param modality The kind of call, for the cost ledger.
+   */
+  protected _updateThreadCount(
+    response: { model?: string; usage?: Partial<OpenAI.Completions.CompletionUsage> | null },
+    modality: CostModality = "chat"
+  ) {
+    if (response.usage !== undefined && response.usage !== null) {
       const { prompt_tokens, completion_tokens, total_tokens } = response.usage;
       if (prompt_tokens !== undefined) this.threadCount.prompt_tokens += prompt_tokens;
       if (completion_tokens !== undefined) this.threadCount.completion_tokens += completion_tokens;
       if (total_tokens !== undefined) this.threadCount.total_tokens += total_tokens;
+
+      this._recordCost({
+        modality,
+        model: response.model ?? this.model,
+        prompt_tokens,
+        completion_tokens,
+      });
     }
   }
+
+  /**
+   * Records an API call in the cost ledger.
+   * @param entry The API call, without its cost.
+   */
+  protected _recordCost(entry: Parameters<CostLedger["record"]>[0]) {
+    const recorded = this.costLedger.record(entry);
+
+    if (this.debug) console.log("Cost recorded", recorded);
+    if (recorded.unpriced && !this.unpricedModelsWarned.includes(entry.model)) {
+      this.unpricedModelsWarned.push(entry.model);
+      console.warn(`No price known for model ${entry.model}, counted as 0`);
+    }
+
+    this._checkBudgetWarnings();
+  }
+
+  /**
+   * Retrieves the usage counted against the budget.
+   * @returns The usage so far.
+   */
+  protected _getBudgetUsage(): Record<BudgetLimit, number> {
+    // the budget covers all branches, not just the active one
+    this._syncActiveBranch();
+    const branches = Object.values(this.branches);
+    const sum = (count: keyof OpenAIWrapperClassCount) =>
+      branches.reduce((total, branch) => total + branch.counts[count], 0);
+
+    return {
+      maxTotalTokens: sum("total_tokens"),
+      maxCostUsd: this.costLedger.getCost(),
+      maxToolCalls: sum("tool_calls"),
+      maxRequests: this.requestCount,
+    };
+  }
+
+  /**
+   * Projects the tokens and cost of a chat request.
+   * @param promptTokens The (estimated) prompt tokens.
+   * @param completionTokens The (maximum or streamed) completion tokens.
+   * @param model The model of the request.
+   * @returns The projected tokens and cost.
+   */
+  protected _projectChatUsage(
+    promptTokens: number,
+    completionTokens: number,
+    model: string = this.model
+  ) {
+    return {
+      tokens: promptTokens + completionTokens,
+      cost: this.costLedger.estimate({
+        modality: "chat",
+        model,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+      }),
+    };
+  }
+
+  /**
+   * Finds the first budget limit that is reached, or would be exceeded by the projected usage.
+   * @param projected The tokens and cost the next request is expected to use.
+   * @returns The error describing the exceeded limit, or undefined when within budget.
+   */
+  protected _findBudgetExceeded(
+    projected: { tokens?: number; cost?: number } = {}
+  ): BudgetExceededError | undefined {
+    if (this.budget === undefined) return undefined;
+
+    const usage = this._getBudgetUsage();
+    const next: Record<BudgetLimit, number> = {
+      maxTotalTokens: usage.maxTotalTokens + (projected.tokens ?? 0),
+      maxCostUsd: usage.maxCostUsd + (projected.cost ?? 0),
+      maxToolCalls: usage.maxToolCalls,
+      maxRequests: usage.maxRequests + 1,
+    };
+
+    for (const limit of Object.keys(next) as BudgetLimit[]) {
+      const max = this.budget[limit];
+      if (max === undefined) continue;
+
+      if (usage[limit] >= max || next[limit] > max)
+        return new BudgetExceededError(limit, usage[limit], max);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Throws a `BudgetExceededError` when a budget limit is reached or would be exceeded by the projected usage.
+   * @param projected The tokens and cost the next request is expected to use.
+   */
+  protected _checkBudget(projected: { tokens?: number; cost?: number } = {}) {
+    const error = this._findBudgetExceeded(projected);
+    if (error !== undefined) throw error;
+  }
+
+  /**
+   * Calls the budget warning callback for every threshold the usage crossed since the last check.
+   */
+  protected _checkBudgetWarnings() {
+    if (this.budget === undefined) return;
+
+    const usage = this._getBudgetUsage();
+    const thresholds = this.budget.warnAt ?? [0.8];
+
+    for (const limit of Object.keys(usage) as BudgetLimit[]) {
+      const max = this.budget[limit];
+      if (max === undefined) continue;
+
+      for (const threshold of thresholds) {
+        const key = `${limit}@${threshold}`;
+        if (usage[limit] < max * threshold || this.budgetWarningsSent.includes(key)) continue;
+
+        this.budgetWarningsSent.push(key);
+        const warning = { limit, used: usage[limit], max, threshold };
+        if (this.budget.onWarning !== undefined) this.budget.onWarning(warning);
+        else console.warn(`Budget warning: ${limit} at ${usage[limit]} of ${max}`);
+      }
+    }
+  }
+}
+
+/**
+ * Maps the items with an async function, running at most `concurrency` calls at the same time.
+ * @param items - The items to map.
+ * @param concurrency - The maximum number of calls in flight.
+ * @param fn - The async function to apply.
+ * @returns A promise resolving to the results, in the order of the items.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return results;
+}
+
+// the limits of an embedding request, see https://platform.openai.com/docs/api-reference/embeddings/create
+const EMBEDDING_MAX_INPUTS = 2048;
+const EMBEDDING_MAX_TOKENS = 300000;
+
+/**
+ * Splits embedding inputs into batches within the limits of inputs and tokens per request.
+ * @param inputs - The inputs to embed.
+ * @param model - The embedding model, whose encoding is used to count the tokens.
+ * @returns The batches, with the index of their first input and their tokens.
+ */
+function batchEmbeddingInputs(
+  inputs: string[],
+  model: string
+): Array<{ inputs: string[]; offset: number; tokens: number }> {
+  const batches: Array<{ inputs: string[]; offset: number; tokens: number }> = [];
+  let batch = { inputs: [] as string[], offset: 0, tokens: 0 };
+
+  inputs.forEach((input, index) => {
+    const tokens = countTokens(input, model);
+    if (
+      batch.inputs.length > 0 &&
+      (batch.inputs.length >= EMBEDDING_MAX_INPUTS || batch.tokens + tokens > EMBEDDING_MAX_TOKENS)
+    ) {
+      batches.push(batch);
+      batch = { inputs: [], offset: index, tokens: 0 };
+    }
+    batch.inputs.push(input);
+    batch.tokens += tokens;
+  });
+  if (batch.inputs.length > 0) batches.push(batch);
+
+  return batches;
 }
 
 /**
@@ -825,7 +3226,7 @@ export class OpenAIWrapperClass {
 export function makeChatToolFunction(
   name: string,
   description: string,
-  parameters: FunctionParameters | StrictFunctionParameters
+  parameters: FunctionParameters | JsonSchema
 ): ChatCompletionTool {
   return {
     type: "function",
@@ -839,6 +3240,8 @@ export function makeChatToolFunction(
 
 /**
  * Represents a stricter definition of function parameters for chat functions - as FunctionParameters is too loose
+ *
+ * @deprecated This describes a whole tool rather than its parameters. Use `defineTool` for typed tool definitions.
  */
 export interface StrictFunctionParameters {
   type: "function";
@@ -1,6 +1,12 @@
 import { Signal, WritableSignal, signal } from "@angular/core";
 import { ChatCompletionMessageParam } from "openai/resources";
-import { CompletionCreateParamsBaseOptionals, OpenAIWrapperClass } from "./openAIwrapper.class";
+import {
+  CompletionCreateParamsBaseOptionals,
+  ConversationBranch,
+  OpenAIWrapperClass,
+  ToolApprovalRequest,
+} from "./openAIwrapper.class";
+import { Provider } from "./openAIwrapperProvider";
 
 /**
  * Represents a class that extends OpenAIWrapperClass and provides additional functionality for handling API out using RXJS
@@ -29,8 +35,22 @@ export class OpenAIWrapperSignalClass extends OpenAIWrapperClass {
     undefined
   );
 
-  constructor(apiKey: string) {
-    super(apiKey);
+  /**
+   * Represents the pendingApprovals$ signal.
+   * It holds the tool calls waiting for approval.
+   */
+  private pendingApprovals$: WritableSignal<ToolApprovalRequest[]> = signal<ToolApprovalRequest[]>(
+    []
+  );
+
+  /**
+   * Represents the activeBranch$ signal.
+   * It holds the id of the active branch.
+   */
+  private activeBranch$: WritableSignal<string> = signal<string>("main");
+
+  constructor(apiKeyOrProvider: string | Provider) {
+    super(apiKeyOrProvider);
   }
 
   /**
@@ -45,6 +65,25 @@ export class OpenAIWrapperSignalClass extends OpenAIWrapperClass {
     return this;
   }
 
+  /**
+   * Sets the tool calls waiting for approval and updates the pending approvals signal.
+   * @param pendingApprovals The tool calls waiting for approval.
+   */
+  protected override _setPendingApprovals(pendingApprovals: ToolApprovalRequest[]) {
+    super._setPendingApprovals(pendingApprovals);
+    this.pendingApprovals$.set(this.pendingApprovals);
+  }
+
+  /**
+   * Makes a branch the active one and updates the active branch signal. The messages signal holds the messages of the
+   * branch.
+   * @param branch The branch to activate.
+   */
+  protected override _setActiveBranch(branch: ConversationBranch) {
+    super._setActiveBranch(branch);
+    this.activeBranch$.set(this.getActiveBranchId());
+  }
+
   /**
    * Runs the prompt stream and sets up the necessary callbacks to capture the stream delta and the concatenated stream using RXJS
    *
@@ -82,4 +121,21 @@ export class OpenAIWrapperSignalClass extends OpenAIWrapperClass {
   getStreamConcatedAsObservable(): Signal<string | undefined> {
     return this.streamConcated$.asReadonly();
   }
+
+  /**
+   * Returns a Signal with the tool calls waiting for approval, e.g. to show a confirm dialog.
+   * Decide on them using `resolveToolApproval`.
+   * @returns A Signal with the pending approval requests.
+   */
+  getPendingApprovalsAsObservable(): Signal<ToolApprovalRequest[]> {
+    return this.pendingApprovals$.asReadonly();
+  }
+
+  /**
+   * Returns a Signal with the id of the active branch, e.g. to highlight it in a branch picker.
+   * @returns A Signal with the id of the active branch.
+   */
+  getActiveBranchAsObservable(): Signal<string> {
+    return this.activeBranch$.asReadonly();
+  }
 }
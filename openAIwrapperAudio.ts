@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+import { toFile } from "openai";
+import { FileLike, Uploadable } from "openai/uploads";
+
+/**
+ * Audio for a transcription or translation: the path of a local file, its bytes, or a file (e.g. from a form upload).
+ */
+export type AudioInput = string | Buffer | FileLike;
+
+/**
+ * The format the API answers transcriptions and translations in.
+ * - "verbose_json": the text with the language, duration and segments with timestamps
+ * - "srt" and "vtt": subtitles, their cues are parsed into segments
+ */
+export type TranscriptionFormat = "json" | "text" | "srt" | "verbose_json" | "vtt";
+
+/**
+ * Options for `runTranscriptionPrompt`.
+ */
+export interface TranscriptionOptions {
+  // defaults to the default transcription model of the model registry
+  model?: string;
+  // the language of the audio as ISO-639-1 code (e.g. "en"), improves accuracy and latency
+  language?: string;
+  // text to guide the style or continue a previous segment, in the language of the audio
+  prompt?: string;
+  temperature?: number;
+  // defaults to "json"
+  response_format?: TranscriptionFormat;
+  // the file name sent with a Buffer, its extension tells the API the audio format; defaults to "audio.mp3"
+  filename?: string;
+  // appends the transcribed text to the thread as a user message
+  appendAsUserMessage?: boolean;
+}
+
+/**
+ * Options for `runAudioTranslationPrompt`, which always translates into English.
+ */
+export interface AudioTranslationOptions extends Omit<TranscriptionOptions, "language"> {}
+
+/**
+ * A timed part of a transcription. Subtitle cues only have the id, timestamps and text.
+ */
+export interface TranscriptionSegment {
+  id: number;
+  // in seconds
+  start: number;
+  end: number;
+  text: string;
+  seek?: number;
+  tokens?: number[];
+  temperature?: number;
+  avg_logprob?: number;
+  compression_ratio?: number;
+  no_speech_prob?: number;
+}
+
+/**
+ * The result of a transcription or translation, whatever format was requested.
+ */
+export interface TranscriptionResult {
+  // the plain text, for subtitles the text of the cues
+  text: string;
+  format: TranscriptionFormat;
+  // for "verbose_json", the detected language (e.g. "english") and the duration in seconds
+  language?: string;
+  duration?: number;
+  // for "verbose_json", "srt" and "vtt"
+  segments?: TranscriptionSegment[];
+  // for "srt" and "vtt", the subtitles as sent by the API
+  subtitles?: string;
+}
+
+/**
+ * Turns audio into a file the SDK can upload.
+ *
+ * @param audio - The path of a local file, the audio bytes, or a file.
+ * @param filename - The file name sent with a Buffer.
+ * @returns A promise resolving to the file.
+ */
+export async function toAudioFile(
+  audio: AudioInput,
+  filename: string = "audio.mp3"
+): Promise<Uploadable> {
+  if (typeof audio === "string") return fs.createReadStream(path.resolve(audio));
+  if (Buffer.isBuffer(audio)) return toFile(audio, filename);
+
+  return audio;
+}
+
+/**
+ * Brings the response of a transcription or translation into one shape.
+ *
+ * @param response - The response: an object for the JSON formats, a string for the others.
+ * @param format - The requested format.
+ * @returns The result.
+ */
+export function toTranscriptionResult(
+  response: unknown,
+  format: TranscriptionFormat
+): TranscriptionResult {
+  if (typeof response !== "string") {
+    const json = response as {
+      text: string;
+      language?: string;
+      duration?: number | string;
+      segments?: TranscriptionSegment[];
+    };
+    const result: TranscriptionResult = { text: json.text, format };
+    if (json.language !== undefined) result.language = json.language;
+    // older API versions send the duration as a string
+    if (json.duration !== undefined) result.duration = Number(json.duration);
+    if (json.segments !== undefined) result.segments = json.segments;
+
+    return result;
+  }
+
+  if (format === "srt" || format === "vtt") {
+    const segments = parseSubtitles(response);
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      format,
+      segments,
+      subtitles: response,
+    };
+  }
+
+  return { text: response.trim(), format };
+}
+
+/**
+ * Parses the cues of SRT or WebVTT subtitles.
+ *
+ * @param subtitles - The subtitles.
+ * @returns The cues as segments, numbered from 0.
+ */
+export function parseSubtitles(subtitles: string): TranscriptionSegment[] {
+  const segments: TranscriptionSegment[] = [];
+
+  for (const block of subtitles.replace(/\r/g, "").split(/\n{2,}/)) {
+    const lines = block.split("\n").filter((line) => line.trim() !== "");
+    const timing = lines.findIndex((line) => line.includes("-->"));
+    if (timing === -1) continue;
+
+    const [start, end] = lines[timing].split("-->").map((time) => parseTimestamp(time));
+    segments.push({
+      id: segments.length,
+      start,
+      end,
+      text: lines
+        .slice(timing + 1)
+        .join(" ")
+        .trim(),
+    });
+  }
+
+  return segments;
+}
+
+// "00:01:02,500" (SRT), "00:01:02.500" or "01:02.500" (WebVTT), followed by optional cue settings
+function parseTimestamp(time: string): number {
+  const parts = time.trim().split(/\s+/)[0].replace(",", ".").split(":").map(Number);
+
+  return parts.reduce((seconds, part) => seconds * 60 + part, 0);
+}
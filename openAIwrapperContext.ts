@@ -0,0 +1,204 @@
+import { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources";
+import { countMessageTokens } from "./openAIwrapperTokenizer";
+
+/**
+ * What a context strategy knows about the request it prepares.
+ */
+export interface ContextStrategyContext {
+  model: string;
+  tools: ChatCompletionTool[];
+  // tokens to keep free for the answer
+  maxTokens: number;
+  // context window of the model in tokens, undefined when unknown
+  contextWindow: number | undefined;
+  // tokens taken by messages added after the strategy, like the context block of a retriever
+  reservedTokens: number;
+  // runs a chat completion outside of the thread and returns the answer, e.g. to summarize
+  complete: (messages: ChatCompletionMessageParam[]) => Promise<string>;
+}
+
+/**
+ * Decides which messages are sent with a chat request. It receives the full history and returns the messages to send;
+ * the history itself is never changed.
+ */
+export type ContextStrategy = (
+  messages: ChatCompletionMessageParam[],
+  context: ContextStrategyContext
+) => ChatCompletionMessageParam[] | Promise<ChatCompletionMessageParam[]>;
+
+/**
+ * Drops the oldest non-system messages until the request fits in the token budget.
+ *
+ * @param maxPromptTokens - The token budget for the prompt. Defaults to the context window minus the tokens kept free for the answer.
+ * Either way, the reserved tokens of the context (e.g. for retrieved passages) are taken off.
+ * @returns The context strategy.
+ */
+export function dropOldestStrategy(maxPromptTokens?: number): ContextStrategy {
+  return (messages, context) => {
+    const available = maxPromptTokens ?? promptBudget(context);
+    if (available === undefined) return messages;
+    const budget = available - context.reservedTokens;
+
+    const system = messages.filter((message) => message.role === "system");
+    const units = groupMessages(messages.filter((message) => message.role !== "system"));
+
+    // always keep the last unit, the request makes no sense without it
+    while (
+      units.length > 1 &&
+      countMessageTokens([...system, ...units.flat()], context.model, context.tools) > budget
+    )
+      units.shift();
+
+    return restoreOrder(messages, [...system, ...units.flat()]);
+  };
+}
+
+/**
+ * Keeps the system messages and the last turns of the conversation. A turn starts at a user message.
+ *
+ * @param turns - The number of turns to keep.
+ * @returns The context strategy.
+ */
+export function keepLastTurnsStrategy(turns: number): ContextStrategy {
+  return (messages) => {
+    const { older, recent } = splitLastTurns(messages, turns);
+
+    return [...older.filter((message) => message.role === "system"), ...recent];
+  };
+}
+
+/**
+ * Keeps the system messages and the last turns, and replaces the older turns by a summary made by the model.
+ * The older turns are sent to the model as a transcript; the summary is sent as a system note and cached until more
+ * turns need summarizing.
+ *
+ * @param keepTurns - The number of recent turns to send as is.
+ * @param instruction - The instruction for the model to summarize the older turns.
+ * @returns The context strategy.
+ */
+export function summarizeStrategy(
+  keepTurns: number = 4,
+  instruction: string = "Summarize the conversation so far in a few sentences. Keep names, numbers, decisions and open questions."
+): ContextStrategy {
+  let cache: { summarized: ChatCompletionMessageParam[]; summary: string } | undefined;
+
+  return async (messages, context) => {
+    const { older, recent } = splitLastTurns(messages, keepTurns);
+    const system = older.filter((message) => message.role === "system");
+    const toSummarize = older.filter((message) => message.role !== "system");
+
+    if (toSummarize.length === 0) return messages;
+
+    const cached =
+      cache !== undefined &&
+      cache.summarized.length === toSummarize.length &&
+      cache.summarized.every((message, index) => message === toSummarize[index]);
+    if (!cached) {
+      // sent as text, tool calls are only accepted together with the tools they call
+      const summary = await context.complete([
+        {
+          role: "user",
+          content: `The conversation so far:\n\n${formatTranscript(toSummarize)}\n\n${instruction}`,
+        },
+      ]);
+      cache = { summarized: toSummarize, summary };
+    }
+
+    return [
+      ...system,
+      { role: "system", content: `Summary of the earlier conversation: ${cache!.summary}` },
+      ...recent,
+    ];
+  };
+}
+
+/**
+ * Groups messages into units that must stay together: an assistant message with tool calls and the tool messages
+ * answering them form one unit, every other message is a unit of its own.
+ *
+ * @param messages - The messages to group.
+ * @returns The units, in order.
+ */
+export function groupMessages(
+  messages: ChatCompletionMessageParam[]
+): ChatCompletionMessageParam[][] {
+  const units: ChatCompletionMessageParam[][] = [];
+
+  for (const message of messages) {
+    const last = units[units.length - 1];
+    if (message.role === "tool" && last !== undefined) last.push(message);
+    else units.push([message]);
+  }
+
+  return units;
+}
+
+function promptBudget(context: ContextStrategyContext): number | undefined {
+  if (context.contextWindow === undefined) return undefined;
+
+  return context.contextWindow - context.maxTokens;
+}
+
+// one line per message, tool calls and their results written out with the name of the tool
+function formatTranscript(messages: ChatCompletionMessageParam[]): string {
+  const toolNames = new Map<string, string>();
+
+  return messages
+    .map((message) => {
+      switch (message.role) {
+        case "assistant": {
+          const lines = message.content ? [`assistant: ${message.content}`] : [];
+          for (const call of message.tool_calls ?? []) {
+            toolNames.set(call.id, call.function.name);
+            lines.push(`assistant called ${call.function.name}(${call.function.arguments})`);
+          }
+          if (message.function_call)
+            lines.push(
+              `assistant called ${message.function_call.name}(${message.function_call.arguments})`
+            );
+          return lines.join("\n");
+        }
+        case "tool":
+          return `tool ${toolNames.get(message.tool_call_id) ?? message.tool_call_id}: ${
+            message.content
+          }`;
+        case "function":
+          return `function ${message.name}: ${message.content}`;
+        default: {
+          const content = message.content;
+          const text =
+            typeof content === "string"
+              ? content
+              : (content ?? [])
+                  .map((part) => (part.type === "text" ? part.text : "[image]"))
+                  .join(" ");
+          return `${message.role}: ${text}`;
+        }
+      }
+    })
+    .filter((line) => line !== "")
+    .join("\n");
+}
+
+// splits at the start of the n-th last user message, never between a tool call and its results
+function splitLastTurns(messages: ChatCompletionMessageParam[], turns: number) {
+  let start = messages.length;
+  let found = 0;
+
+  while (start > 0 && found < turns) {
+    start--;
+    if (messages[start].role === "user") found++;
+  }
+
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+// keeps the original order of the messages that were kept
+function restoreOrder(
+  original: ChatCompletionMessageParam[],
+  kept: ChatCompletionMessageParam[]
+): ChatCompletionMessageParam[] {
+  const keep = new Set(kept);
+
+  return original.filter((message) => keep.has(message));
+}
@@ -0,0 +1,224 @@
+/**
+ * The price of a model in USD. Token and character prices are per 1 million.
+ */
+export interface ModelPrice {
+  input?: number;
+  output?: number;
+  // for speech, per 1 million characters of input
+  characters?: number;
+  // for transcription, per minute of audio
+  minutes?: number;
+  // for images, keyed by "<quality> <size>" (e.g. "hd 1024x1024"), or a flat price per image
+  image?: number | Record<string, number>;
+}
+
+/**
+ * Prices keyed by model name.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * The kind of API call a ledger entry is for.
+ */
+export type CostModality =
+  | "chat"
+  | "vision"
+  | "embedding"
+  | "speech"
+  | "transcription"
+  | "image"
+  | "moderation";
+
+/**
+ * A single API call in the cost ledger.
+ */
+export interface CostEntry {
+  timestamp: number;
+  modality: CostModality;
+  model: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  characters?: number;
+  // of transcribed audio
+  seconds?: number;
+  images?: number;
+  // "<quality> <size>" of generated images
+  imageVariant?: string;
+  // in USD
+  cost: number;
+  // true when the model is missing from the price table, the cost is then 0
+  unpriced?: boolean;
+}
+
+/**
+ * The cost per model in USD.
+ */
+export type CostBreakdown = Record<string, { cost: number; calls: number }>;
+
+/**
+ * The OpenAI list prices in USD at the time of writing - override them using `setPrices` when they change.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-3.5-turbo-0613": { input: 1.5, output: 2 },
+  "gpt-3.5-turbo-1106": { input: 1, output: 2 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-32k": { input: 60, output: 120 },
+  "gpt-4-1106-preview": { input: 10, output: 30 },
+  "gpt-4-vision-preview": { input: 10, output: 30 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4o": { input: 5, output: 15 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "text-embedding-ada-002": { input: 0.1 },
+  "text-embedding-3-small": { input: 0.02 },
+  "text-embedding-3-large": { input: 0.13 },
+  "tts-1": { characters: 15 },
+  "tts-1-hd": { characters: 30 },
+  "whisper-1": { minutes: 0.006 },
+  "dall-e-2": {
+    image: { "standard 256x256": 0.016, "standard 512x512": 0.018, "standard 1024x1024": 0.02 },
+  },
+  "dall-e-3": {
+    image: {
+      "standard 1024x1024": 0.04,
+      "standard 1024x1792": 0.08,
+      "standard 1792x1024": 0.08,
+      "hd 1024x1024": 0.08,
+      "hd 1024x1792": 0.12,
+      "hd 1792x1024": 0.12,
+    },
+  },
+  "text-moderation": {},
+  "text-moderation-latest": {},
+  "text-moderation-stable": {},
+};
+
+/**
+ * Records the cost of every API call, priced using a configurable price table.
+ */
+export class CostLedger {
+  protected entries: CostEntry[] = [];
+  protected prices: PriceTable;
+
+  constructor(prices: PriceTable = DEFAULT_PRICES) {
+    this.prices = { ...prices };
+  }
+
+  /**
+   * Sets or overrides the prices of models.
+   *
+   * @param prices - The prices keyed by model name, merged into the current price table.
+   * @returns The updated CostLedger instance.
+   */
+  setPrices(prices: PriceTable): CostLedger {
+    this.prices = { ...this.prices, ...prices };
+
+    return this;
+  }
+
+  /**
+   * Records an API call and prices it.
+   *
+   * @param entry - The API call, without its cost.
+   * @returns The recorded entry, including its cost.
+   */
+  record(entry: Omit<CostEntry, "cost" | "unpriced" | "timestamp">): CostEntry {
+    const recorded: CostEntry = { ...entry, timestamp: Date.now(), cost: this.estimate(entry) };
+    if (this.findPrice(entry.model) === undefined) recorded.unpriced = true;
+
+    this.entries.push(recorded);
+
+    return recorded;
+  }
+
+  /**
+   * Prices an API call without recording it, e.g. to check a budget before making the call.
+   *
+   * @param entry - The API call, without its cost.
+   * @returns The cost in USD, 0 when the model has no price.
+   */
+  estimate(entry: Omit<CostEntry, "cost" | "unpriced" | "timestamp">): number {
+    const price = this.findPrice(entry.model);
+
+    return price !== undefined ? this.calculate(entry, price) : 0;
+  }
+
+  /**
+   * Retrieves the total cost of all recorded calls.
+   * @returns The cost in USD.
+   */
+  getCost(): number {
+    return this.entries.reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  /**
+   * Retrieves the cost per model.
+   * @returns The cost and number of calls, keyed by model.
+   */
+  getBreakdown(): CostBreakdown {
+    const breakdown: CostBreakdown = {};
+    for (const entry of this.entries) {
+      breakdown[entry.model] ??= { cost: 0, calls: 0 };
+      breakdown[entry.model].cost += entry.cost;
+      breakdown[entry.model].calls++;
+    }
+
+    return breakdown;
+  }
+
+  /**
+   * Retrieves all recorded calls.
+   * @returns The entries, oldest first.
+   */
+  getEntries(): CostEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Serializes the ledger, including its price table.
+   * @returns A plain object, safe to pass to JSON.stringify.
+   */
+  toJSON(): { entries: CostEntry[]; prices: PriceTable } {
+    return { entries: this.entries, prices: this.prices };
+  }
+
+  /**
+   * Restores a ledger serialized with `toJSON`.
+   *
+   * @param json - The serialized ledger.
+   * @returns The restored CostLedger instance.
+   */
+  static fromJSON(json: { entries: CostEntry[]; prices: PriceTable }): CostLedger {
+    const ledger = new CostLedger(json.prices);
+    ledger.entries = [...json.entries];
+
+    return ledger;
+  }
+
+  // snapshots like "gpt-4-0613" or "text-moderation-006" fall back to the price of their base model
+  protected findPrice(model: string): ModelPrice | undefined {
+    if (this.prices[model] !== undefined) return this.prices[model];
+
+    const base = model.replace(/-(\d{3,4}|\d{4}-\d{2}-\d{2})$/, "");
+
+    return this.prices[base];
+  }
+
+  protected calculate(entry: Omit<CostEntry, "cost" | "timestamp">, price: ModelPrice): number {
+    let cost = 0;
+    cost += ((entry.prompt_tokens ?? 0) * (price.input ?? 0)) / 1_000_000;
+    cost += ((entry.completion_tokens ?? 0) * (price.output ?? 0)) / 1_000_000;
+    cost += ((entry.characters ?? 0) * (price.characters ?? 0)) / 1_000_000;
+    cost += ((entry.seconds ?? 0) * (price.minutes ?? 0)) / 60;
+
+    if (entry.images !== undefined && price.image !== undefined) {
+      const perImage =
+        typeof price.image === "number"
+          ? price.image
+          : price.image[entry.imageVariant ?? ""] ?? Object.values(price.image)[0] ?? 0;
+      cost += entry.images * perImage;
+    }
+
+    return cost;
+  }
+}
@@ -0,0 +1,565 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  ChatCompletionCreateParams,
+  EmbeddingCreateParams,
+  ImageGenerateParams,
+  ModerationCreateParams,
+} from "openai/resources";
+import { SpeechCreateParams } from "openai/resources/audio";
+import { countMessageTokens, countTokens } from "./openAIwrapperTokenizer";
+
+/**
+ * The endpoints served by the fake server.
+ */
+export type FakeEndpoint =
+  | "chat"
+  | "embeddings"
+  | "images"
+  | "speech"
+  | "transcriptions"
+  | "translations"
+  | "moderations";
+
+/**
+ * A scripted chat completion. Tool call arguments may be given as an object, they are sent as JSON.
+ */
+export interface FakeChatReply {
+  content?: string | null;
+  toolCalls?: { name: string; arguments: unknown; id?: string }[];
+  // defaults to "tool_calls" when there are tool calls, "stop" otherwise
+  finishReason?: "stop" | "length" | "tool_calls" | "content_filter";
+}
+
+/**
+ * A scripted transcription or translation.
+ */
+export interface FakeTranscriptionReply {
+  text: string;
+  language?: string;
+  duration?: number;
+}
+
+/**
+ * The scripted replies of each endpoint.
+ */
+export interface FakeReplies {
+  chat: FakeChatReply;
+  embeddings: { embeddings: number[][] };
+  images: { urls: string[] };
+  speech: { audio: Buffer; contentType?: string };
+  transcriptions: FakeTranscriptionReply;
+  translations: FakeTranscriptionReply;
+  moderations: { flagged: boolean; categories?: Record<string, boolean> };
+}
+
+/**
+ * A file in a multipart request.
+ */
+export interface FakeFile {
+  filename: string;
+  size: number;
+}
+
+/**
+ * A transcription or translation request. Its fields arrive as multipart form fields, so they are all strings.
+ */
+export interface FakeAudioRequestBody {
+  file: FakeFile;
+  model: string;
+  language?: string;
+  prompt?: string;
+  response_format?: string;
+  temperature?: string;
+}
+
+/**
+ * The request bodies of each endpoint.
+ */
+export interface FakeRequestBodies {
+  // stream_options and dimensions are not in the typings of this SDK version yet
+  chat: ChatCompletionCreateParams & { stream_options?: { include_usage?: boolean } };
+  embeddings: EmbeddingCreateParams & { dimensions?: number };
+  images: ImageGenerateParams;
+  speech: SpeechCreateParams;
+  transcriptions: FakeAudioRequestBody;
+  translations: FakeAudioRequestBody;
+  moderations: ModerationCreateParams;
+}
+
+/**
+ * A scripted error response, e.g. a 429 with a `retry-after` header.
+ */
+export interface FakeError {
+  status: number;
+  message?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A scripted reply, or a function creating it from the request body.
+ */
+export type FakeReply<E extends FakeEndpoint> =
+  | FakeReplies[E]
+  | FakeError
+  | ((body: FakeRequestBodies[E]) => FakeReplies[E] | FakeError);
+
+/**
+ * A request received by the fake server. Multipart bodies are parsed into their fields, with files as
+ * `{ filename, size }`. Checking `endpoint` narrows the type of `body`.
+ */
+export type FakeRequest<E extends FakeEndpoint = FakeEndpoint> = E extends FakeEndpoint
+  ? {
+      endpoint: E;
+      method: string;
+      path: string;
+      headers: http.IncomingHttpHeaders;
+      body: FakeRequestBodies[E];
+    }
+  : never;
+
+const ENDPOINTS: Record<string, FakeEndpoint> = {
+  "/chat/completions": "chat",
+  "/embeddings": "embeddings",
+  "/images/generations": "images",
+  "/audio/speech": "speech",
+  "/audio/transcriptions": "transcriptions",
+  "/audio/translations": "translations",
+  "/moderations": "moderations",
+};
+
+const MODERATION_CATEGORIES = [
+  "sexual",
+  "hate",
+  "harassment",
+  "self-harm",
+  "sexual/minors",
+  "hate/threatening",
+  "violence/graphic",
+  "self-harm/intent",
+  "self-harm/instructions",
+  "harassment/threatening",
+  "violence",
+];
+
+/**
+ * An in-process HTTP server implementing the OpenAI endpoints used by the wrapper - chat (including streaming and tool
+ * calls), embeddings, images, speech, transcriptions, translations and moderations - with scriptable replies.
+ * Scripted replies are used in order per endpoint; without one, a deterministic default reply is sent.
+ *
+ * @example
+ * const server = new FakeOpenAIServer();
+ * const baseURL = await server.start();
+ * server.reply("chat", { toolCalls: [{ name: "get_current_weather", arguments: { location: "Paris" } }] }, { content: "Sunny" });
+ *
+ * const thread = new OpenAIWrapperClass(openAIProvider({ apiKey: "test", baseURL }));
+ * ...
+ * await server.stop();
+ */
+export class FakeOpenAIServer {
+  protected server: http.Server | undefined = undefined;
+  protected replies: { [E in FakeEndpoint]?: FakeReply<E>[] } = {};
+  protected requests: FakeRequest[] = [];
+  protected counter: number = 0;
+
+  /**
+   * Starts the server on localhost.
+   *
+   * @param port - The port, a free one when 0.
+   * @returns A promise resolving to the base URL to pass to the provider, e.g. "http://127.0.0.1:51234/v1".
+   */
+  start(port: number = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => this.handle(req, Buffer.concat(chunks), res));
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve(this.getBaseURL()));
+    });
+  }
+
+  /**
+   * Stops the server.
+   * @returns A promise that resolves once it is closed.
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server === undefined) return Promise.resolve();
+
+    return new Promise((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Retrieves the base URL of the running server.
+   * @returns The base URL, ending in /v1.
+   */
+  getBaseURL(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) throw new Error("FakeOpenAIServer is not started");
+
+    return `http://127.0.0.1:${address.port}/v1`;
+  }
+
+  /**
+   * Queues replies for an endpoint, used one per request in the given order.
+   *
+   * @param endpoint - The endpoint.
+   * @param replies - The replies, errors, or functions creating them from the request body.
+   * @returns The updated FakeOpenAIServer instance.
+   */
+  reply<E extends FakeEndpoint>(endpoint: E, ...replies: FakeReply<E>[]): FakeOpenAIServer {
+    const queue = (this.replies[endpoint] ??= []) as FakeReply<E>[];
+    queue.push(...replies);
+
+    return this;
+  }
+
+  /**
+   * Retrieves the received requests.
+   *
+   * @param endpoint - Only return the requests to this endpoint.
+   * @returns The requests, oldest first.
+   */
+  getRequests<E extends FakeEndpoint = FakeEndpoint>(endpoint?: E): FakeRequest<E>[] {
+    return this.requests.filter(
+      (request): request is FakeRequest<E> =>
+        endpoint === undefined || request.endpoint === endpoint
+    );
+  }
+
+  /**
+   * Forgets all queued replies and received requests.
+   * @returns The updated FakeOpenAIServer instance.
+   */
+  reset(): FakeOpenAIServer {
+    this.replies = {};
+    this.requests = [];
+
+    return this;
+  }
+
+  protected handle(req: http.IncomingMessage, raw: Buffer, res: http.ServerResponse) {
+    const path = (req.url ?? "/").split("?")[0].replace(/^\/v1/, "");
+    const endpoint = ENDPOINTS[path];
+    if (req.method !== "POST" || endpoint === undefined)
+      return sendJson(res, 404, { error: { message: `Unknown endpoint ${req.method} ${path}` } });
+
+    const contentType = req.headers["content-type"] ?? "";
+    let body: unknown;
+    try {
+      body = contentType.startsWith("multipart/form-data")
+        ? parseMultipart(raw, contentType)
+        : JSON.parse(raw.toString("utf8") || "{}");
+    } catch (e) {
+      return sendJson(res, 400, { error: { message: "Invalid request body" } });
+    }
+
+    // the body is not validated, the wrapper under test is trusted to send the documented shape
+    const request = {
+      endpoint,
+      method: req.method,
+      path,
+      headers: req.headers,
+      body,
+    } as FakeRequest;
+    this.requests.push(request);
+
+    const queued = this.replies[endpoint]?.shift() as FakeReply<FakeEndpoint> | undefined;
+    const reply = typeof queued === "function" ? queued(request.body) : queued;
+
+    if (reply !== undefined && "status" in reply) {
+      const error = reply as FakeError;
+      return sendJson(
+        res,
+        error.status,
+        { error: { message: error.message ?? `Fake error ${error.status}`, type: "fake_error" } },
+        error.headers
+      );
+    }
+
+    switch (request.endpoint) {
+      case "chat":
+        return this.sendChat(res, request.body, reply as FakeChatReply | undefined);
+      case "embeddings":
+        return this.sendEmbeddings(
+          res,
+          request.body,
+          reply as FakeReplies["embeddings"] | undefined
+        );
+      case "images":
+        return this.sendImages(res, request.body, reply as FakeReplies["images"] | undefined);
+      case "speech": {
+        const speech = reply as FakeReplies["speech"] | undefined;
+        res.writeHead(200, { "content-type": speech?.contentType ?? "audio/mpeg" });
+        return res.end(speech?.audio ?? Buffer.from(`fake audio: ${request.body.input}`));
+      }
+      case "transcriptions":
+      case "translations":
+        return this.sendTranscription(
+          res,
+          request.endpoint,
+          request.body,
+          reply as FakeTranscriptionReply
+        );
+      case "moderations": {
+        const moderation = reply as FakeReplies["moderations"] | undefined;
+        const categories: Record<string, boolean> = {};
+        const scores: Record<string, number> = {};
+        for (const category of MODERATION_CATEGORIES) {
+          categories[category] = moderation?.categories?.[category] ?? false;
+          scores[category] = categories[category] ? 0.99 : 0.001;
+        }
+        const input = request.body.input;
+        const inputs = Array.isArray(input) ? input : [input];
+        return sendJson(res, 200, {
+          id: `modr-fake-${++this.counter}`,
+          model: request.body.model ?? "text-moderation-007",
+          results: inputs.map(() => ({
+            flagged: moderation?.flagged ?? false,
+            categories,
+            category_scores: scores,
+          })),
+        });
+      }
+    }
+  }
+
+  protected sendChat(
+    res: http.ServerResponse,
+    body: FakeRequestBodies["chat"],
+    reply: FakeChatReply | undefined
+  ) {
+    const content = reply === undefined ? "This is a fake answer." : reply.content ?? null;
+    const toolCalls = (reply?.toolCalls ?? []).map((toolCall, index) => ({
+      id: toolCall.id ?? `call_fake_${this.counter + 1}_${index}`,
+      type: "function" as const,
+      function: {
+        name: toolCall.name,
+        arguments:
+          typeof toolCall.arguments === "string"
+            ? toolCall.arguments
+            : JSON.stringify(toolCall.arguments),
+      },
+    }));
+    const finishReason = reply?.finishReason ?? (toolCalls.length > 0 ? "tool_calls" : "stop");
+
+    const model: string = body.model;
+    const prompt_tokens = countMessageTokens(body.messages ?? [], model, body.tools ?? []);
+    const completion_tokens =
+      countTokens(content ?? "", model) +
+      toolCalls.reduce(
+        (sum, toolCall) =>
+          sum + countTokens(toolCall.function.name + toolCall.function.arguments, model),
+        0
+      );
+    const usage = {
+      prompt_tokens,
+      completion_tokens,
+      total_tokens: prompt_tokens + completion_tokens,
+    };
+    const base = { id: `chatcmpl-fake-${++this.counter}`, created: 1700000000, model };
+
+    if (!body.stream) {
+      const message =
+        toolCalls.length > 0
+          ? { role: "assistant", content, tool_calls: toolCalls }
+          : { role: "assistant", content };
+
+      return sendJson(res, 200, {
+        ...base,
+        object: "chat.completion",
+        choices: [{ index: 0, message, finish_reason: finishReason }],
+        usage,
+      });
+    }
+
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    const send = (delta: object, finish_reason: string | null = null) =>
+      res.write(
+        `data: ${JSON.stringify({
+          ...base,
+          object: "chat.completion.chunk",
+          choices: [{ index: 0, delta, finish_reason }],
+        })}\n\n`
+      );
+
+    send({ role: "assistant", content: "" });
+    for (const piece of (content ?? "").match(/\S+\s*|\s+/g) ?? []) send({ content: piece });
+    toolCalls.forEach((toolCall, index) => {
+      send({
+        tool_calls: [
+          {
+            index,
+            id: toolCall.id,
+            type: "function",
+            function: { name: toolCall.function.name, arguments: "" },
+          },
+        ],
+      });
+      // the arguments arrive in two pieces, like they do from the real API
+      const half = Math.ceil(toolCall.function.arguments.length / 2);
+      for (const part of [
+        toolCall.function.arguments.slice(0, half),
+        toolCall.function.arguments.slice(half),
+      ])
+        send({ tool_calls: [{ index, function: { arguments: part } }] });
+    });
+    send({}, finishReason);
+
+    if (body.stream_options?.include_usage)
+      res.write(
+        `data: ${JSON.stringify({
+          ...base,
+          object: "chat.completion.chunk",
+          choices: [],
+          usage,
+        })}\n\n`
+      );
+    res.end("data: [DONE]\n\n");
+  }
+
+  protected sendEmbeddings(
+    res: http.ServerResponse,
+    body: FakeRequestBodies["embeddings"],
+    reply: FakeReplies["embeddings"] | undefined
+  ) {
+    const inputs: unknown[] = Array.isArray(body.input) ? body.input : [body.input];
+    const embeddings =
+      reply?.embeddings ??
+      inputs.map((input) => fakeEmbedding(String(input), body.dimensions ?? 8));
+    const prompt_tokens = inputs.reduce(
+      (sum: number, input) => sum + countTokens(String(input), body.model),
+      0
+    );
+
+    sendJson(res, 200, {
+      object: "list",
+      model: body.model,
+      data: embeddings.map((embedding, index) => ({ object: "embedding", index, embedding })),
+      usage: { prompt_tokens, total_tokens: prompt_tokens },
+    });
+  }
+
+  protected sendImages(
+    res: http.ServerResponse,
+    body: FakeRequestBodies["images"],
+    reply: FakeReplies["images"] | undefined
+  ) {
+    const urls =
+      reply?.urls ??
+      Array.from(
+        { length: body.n ?? 1 },
+        () => `https://fake.openai.local/images/${++this.counter}.png`
+      );
+
+    sendJson(res, 200, {
+      created: 1700000000,
+      data: urls.map((url) =>
+        body.response_format === "b64_json"
+          ? { b64_json: Buffer.from(url).toString("base64"), revised_prompt: body.prompt }
+          : { url, revised_prompt: body.prompt }
+      ),
+    });
+  }
+
+  protected sendTranscription(
+    res: http.ServerResponse,
+    endpoint: "transcriptions" | "translations",
+    body: FakeAudioRequestBody,
+    reply: FakeTranscriptionReply | undefined
+  ) {
+    const text =
+      reply?.text ??
+      (endpoint === "transcriptions"
+        ? "This is a fake transcription."
+        : "This is a fake translation.");
+    const format = body.response_format ?? "json";
+
+    if (format === "text") {
+      res.writeHead(200, { "content-type": "text/plain" });
+      return res.end(text);
+    }
+    if (format === "srt" || format === "vtt") {
+      const end = formatTimestamp(reply?.duration ?? 1, format === "srt" ? "," : ".");
+      const cue = `00:00:00${format === "srt" ? "," : "."}000 --> ${end}\n${text}\n`;
+      res.writeHead(200, { "content-type": "text/plain" });
+      return res.end(format === "srt" ? `1\n${cue}` : `WEBVTT\n\n${cue}`);
+    }
+    if (format === "verbose_json") {
+      const duration = reply?.duration ?? 1;
+      return sendJson(res, 200, {
+        task: endpoint === "transcriptions" ? "transcribe" : "translate",
+        language: reply?.language ?? "english",
+        duration,
+        text,
+        segments: [{ id: 0, seek: 0, start: 0, end: duration, text }],
+      });
+    }
+
+    sendJson(res, 200, { text });
+  }
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { ...headers, "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// "hh:mm:ss,mmm" for SRT, "hh:mm:ss.mmm" for WebVTT
+function formatTimestamp(seconds: number, separator: string): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, "0");
+
+  return `${pad(Math.floor(milliseconds / 3600000))}:${pad(
+    Math.floor(milliseconds / 60000) % 60
+  )}:${pad(Math.floor(milliseconds / 1000) % 60)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+// a unit vector derived from the text, so equal texts get equal embeddings
+function fakeEmbedding(text: string, dimensions: number): number[] {
+  let hash = 2166136261;
+  const vector: number[] = [];
+  for (let i = 0; i < dimensions; i++) {
+    for (const char of `${i}:${text}`) hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+    vector.push(((hash >>> 0) / 0xffffffff) * 2 - 1);
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+
+  return vector.map((value) => value / length);
+}
+
+function parseMultipart(raw: Buffer, contentType: string): Record<string, unknown> {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (boundary === null) throw new Error("Missing multipart boundary");
+
+  const fields: Record<string, unknown> = {};
+  for (const part of raw.toString("latin1").split(`--${boundary[1] ?? boundary[2]}`)) {
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd === -1) continue;
+
+    const headers = part.slice(0, headerEnd);
+    const content = part.slice(headerEnd + 4).replace(/\r\n$/, "");
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    if (name === undefined) continue;
+
+    const filename = /filename="([^"]*)"/.exec(headers)?.[1];
+    fields[name] =
+      filename !== undefined
+        ? { filename, size: content.length }
+        : Buffer.from(content, "latin1").toString("utf8");
+  }
+
+  return fields;
+}
@@ -0,0 +1,190 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ChatCompletionContentPartImage, ChatCompletionMessageParam } from "openai/resources";
+
+/**
+ * The detail level of an image in a vision request, see https://platform.openai.com/docs/guides/vision
+ */
+export type ImageDetail = "auto" | "low" | "high";
+
+/**
+ * An image for a vision request: an http(s) or data URL, the path of a local file, or the image bytes.
+ */
+export type ImageSource = string | Buffer;
+
+/**
+ * An image with its own detail level.
+ */
+export interface ImageInput {
+  image: ImageSource;
+  detail?: ImageDetail;
+}
+
+/**
+ * Thrown when an image is not in one of the formats the vision models accept (PNG, JPEG, GIF and WebP).
+ */
+export class UnsupportedImageError extends Error {
+  constructor(public readonly source: string) {
+    super(`Unsupported image format: ${source}`);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+// used when the bytes give no answer, e.g. for a truncated file
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/**
+ * Detects the MIME type of an image from its first bytes.
+ *
+ * @param data - The image bytes.
+ * @returns The MIME type, or undefined if it is not a PNG, JPEG, GIF or WebP image.
+ */
+export function detectImageMimeType(data: Buffer): string | undefined {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff)
+    return "image/jpeg";
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString("latin1", 0, 6))) return "image/gif";
+  if (
+    data.length >= 12 &&
+    data.toString("latin1", 0, 4) === "RIFF" &&
+    data.toString("latin1", 8, 12) === "WEBP"
+  )
+    return "image/webp";
+
+  return undefined;
+}
+
+/**
+ * Reads the dimensions of an image from its header, e.g. to estimate its tokens.
+ *
+ * @param data - The image bytes.
+ * @returns The width and height in pixels, or undefined if they cannot be read.
+ */
+export function getImageDimensions(data: Buffer): { width: number; height: number } | undefined {
+  switch (detectImageMimeType(data)) {
+    case "image/png":
+      if (data.length < 24) return undefined;
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+
+    case "image/gif":
+      if (data.length < 10) return undefined;
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+
+    case "image/webp":
+      return getWebpDimensions(data);
+
+    case "image/jpeg":
+      return getJpegDimensions(data);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the dimensions of an image in a base64 data URL.
+ *
+ * @param url - The URL of an image part.
+ * @returns The width and height in pixels, or undefined for other URLs or unreadable images.
+ */
+export function getDataUrlImageDimensions(
+  url: string
+): { width: number; height: number } | undefined {
+  const match = /^data:image\/[\w.+-]+;base64,/.exec(url);
+  if (match === null) return undefined;
+
+  return getImageDimensions(Buffer.from(url.slice(match[0].length), "base64"));
+}
+
+/**
+ * Turns an image into a content part of a chat message. URLs are passed on as they are; files and Buffers are sent
+ * inline as base64 data URLs.
+ *
+ * @param input - The image, optionally with its own detail level.
+ * @param detail - The detail level for images without their own.
+ * @returns A promise resolving to the content part.
+ * @throws UnsupportedImageError when a file or Buffer is not a PNG, JPEG, GIF or WebP image.
+ */
+export async function toImageContentPart(
+  input: ImageSource | ImageInput,
+  detail?: ImageDetail
+): Promise<ChatCompletionContentPartImage> {
+  const { image, detail: imageDetail = detail } =
+    typeof input === "string" || Buffer.isBuffer(input) ? { image: input } : input;
+
+  let url: string;
+  if (typeof image === "string" && /^(https?|data):/i.test(image)) {
+    url = image;
+  } else if (typeof image === "string") {
+    const data = await fs.readFile(image);
+    const mimeType =
+      detectImageMimeType(data) ?? MIME_TYPES_BY_EXTENSION[path.extname(image).toLowerCase()];
+    if (mimeType === undefined) throw new UnsupportedImageError(image);
+    url = `data:${mimeType};base64,${data.toString("base64")}`;
+  } else {
+    const mimeType = detectImageMimeType(image);
+    if (mimeType === undefined) throw new UnsupportedImageError(`Buffer of ${image.length} bytes`);
+    url = `data:${mimeType};base64,${image.toString("base64")}`;
+  }
+
+  return {
+    type: "image_url",
+    image_url: imageDetail === undefined ? { url } : { url, detail: imageDetail },
+  };
+}
+
+/**
+ * Returns whether any of the messages has an image part.
+ *
+ * @param messages - The messages to check.
+ * @returns True when a message contains an image.
+ */
+export function hasImageParts(messages: ChatCompletionMessageParam[]): boolean {
+  return messages.some(
+    (message) =>
+      Array.isArray(message.content) && message.content.some((part) => part.type === "image_url")
+  );
+}
+
+// the size is in the VP8 (lossy), VP8L (lossless) or VP8X (extended) chunk
+function getWebpDimensions(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length < 30) return undefined;
+
+  switch (data.toString("latin1", 12, 16)) {
+    case "VP8 ":
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+
+    case "VP8L": {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+
+    case "VP8X":
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+
+  return undefined;
+}
+
+// walks the segments up to the start of frame, which holds the size
+function getJpegDimensions(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return undefined;
+
+    const marker = data[offset + 1];
+    // SOF0 - SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc)
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,229 @@
+/**
+ * A feature a chat model may or may not support.
+ * - "json_object": JSON mode, `response_format: { type: "json_object" }`
+ * - "seed": reproducible sampling via the `seed` option
+ */
+export type ModelFeature = "tools" | "vision" | "json_object" | "streaming" | "seed";
+
+/**
+ * The kind of API a model is used with.
+ */
+export type ModelModality =
+  | "chat"
+  | "embedding"
+  | "speech"
+  | "transcription"
+  | "image"
+  | "moderation";
+
+/**
+ * What the wrapper knows about a model.
+ */
+export interface ModelInfo {
+  name: string;
+  modality: ModelModality;
+  // in tokens, for chat and embedding models
+  contextWindow?: number;
+  // the largest max_tokens the model accepts
+  maxOutputTokens?: number;
+  features: ModelFeature[];
+}
+
+/**
+ * Thrown when a model is used for something it does not support, e.g. tools with a vision-only model.
+ */
+export class ModelCapabilityError extends Error {
+  constructor(public readonly model: string, public readonly requirement: string) {
+    super(`Model ${model} does not support ${requirement}`);
+    this.name = "ModelCapabilityError";
+  }
+}
+
+const CHAT_FEATURES: ModelFeature[] = ["tools", "json_object", "streaming", "seed"];
+
+/**
+ * The OpenAI models known at the time of writing - register others using `ModelRegistry.register`.
+ */
+export const DEFAULT_MODELS: ModelInfo[] = [
+  {
+    name: "gpt-3.5-turbo",
+    modality: "chat",
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    features: CHAT_FEATURES,
+  },
+  {
+    name: "gpt-3.5-turbo-1106",
+    modality: "chat",
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    features: CHAT_FEATURES,
+  },
+  {
+    name: "gpt-4",
+    modality: "chat",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    features: ["tools", "streaming", "seed"],
+  },
+  {
+    name: "gpt-4-32k",
+    modality: "chat",
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+    features: ["tools", "streaming", "seed"],
+  },
+  {
+    name: "gpt-4-1106-preview",
+    modality: "chat",
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    features: CHAT_FEATURES,
+  },
+  {
+    name: "gpt-4-vision-preview",
+    modality: "chat",
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    features: ["vision", "streaming"],
+  },
+  {
+    name: "gpt-4-turbo",
+    modality: "chat",
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    features: [...CHAT_FEATURES, "vision"],
+  },
+  {
+    name: "gpt-4o",
+    modality: "chat",
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    features: [...CHAT_FEATURES, "vision"],
+  },
+  {
+    name: "gpt-4o-mini",
+    modality: "chat",
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    features: [...CHAT_FEATURES, "vision"],
+  },
+  { name: "text-embedding-ada-002", modality: "embedding", contextWindow: 8191, features: [] },
+  { name: "text-embedding-3-small", modality: "embedding", contextWindow: 8191, features: [] },
+  { name: "text-embedding-3-large", modality: "embedding", contextWindow: 8191, features: [] },
+  { name: "tts-1", modality: "speech", features: [] },
+  { name: "tts-1-hd", modality: "speech", features: [] },
+  { name: "whisper-1", modality: "transcription", features: [] },
+  { name: "dall-e-2", modality: "image", features: [] },
+  { name: "dall-e-3", modality: "image", features: [] },
+  { name: "text-moderation-latest", modality: "moderation", features: [] },
+  { name: "text-moderation-stable", modality: "moderation", features: [] },
+];
+
+/**
+ * The models used when none is given, per modality. "vision" is the chat model for vision prompts.
+ */
+export const DEFAULT_MODEL_PER_MODALITY: Record<ModelModality | "vision", string> = {
+  chat: "gpt-3.5-turbo",
+  vision: "gpt-4o",
+  embedding: "text-embedding-ada-002",
+  speech: "tts-1",
+  transcription: "whisper-1",
+  image: "dall-e-2",
+  moderation: "text-moderation-latest",
+};
+
+/**
+ * The models the wrapper knows, with their context window, output limit and features.
+ */
+export class ModelRegistry {
+  protected models: Record<string, ModelInfo> = {};
+  protected defaults: Record<ModelModality | "vision", string>;
+
+  constructor(
+    models: ModelInfo[] = DEFAULT_MODELS,
+    defaults: Record<ModelModality | "vision", string> = DEFAULT_MODEL_PER_MODALITY
+  ) {
+    for (const model of models) this.models[model.name] = model;
+    this.defaults = { ...defaults };
+  }
+
+  /**
+   * Adds a model, or replaces the entry of a known one.
+   *
+   * @param model - The model and what it supports.
+   * @returns The updated ModelRegistry instance.
+   */
+  register(model: ModelInfo): ModelRegistry {
+    this.models[model.name] = model;
+
+    return this;
+  }
+
+  /**
+   * Sets the model used when none is given.
+   *
+   * @param modality - The modality, or "vision" for vision prompts.
+   * @param model - The name of the model.
+   * @returns The updated ModelRegistry instance.
+   */
+  setDefault(modality: ModelModality | "vision", model: string): ModelRegistry {
+    this.defaults[modality] = model;
+
+    return this;
+  }
+
+  /**
+   * Retrieves the model used when none is given.
+   *
+   * @param modality - The modality, or "vision" for vision prompts.
+   * @returns The name of the model.
+   */
+  getDefault(modality: ModelModality | "vision"): string {
+    return this.defaults[modality];
+  }
+
+  /**
+   * Looks up a model. Snapshots like "gpt-4-0613" fall back to their base model.
+   *
+   * @param name - The name of the model.
+   * @returns The model, or undefined when it is unknown.
+   */
+  get(name: string): ModelInfo | undefined {
+    return this.models[name] ?? this.models[name.replace(/-(\d{3,4}|\d{4}-\d{2}-\d{2})$/, "")];
+  }
+
+  /**
+   * Lists the known models.
+   *
+   * @param modality - Only list the models of this modality.
+   * @returns The models.
+   */
+  list(modality?: ModelModality): ModelInfo[] {
+    return Object.values(this.models).filter(
+      (model) => modality === undefined || model.modality === modality
+    );
+  }
+
+  /**
+   * Checks that a model can be used for a modality and supports the given features. Unknown models are not checked.
+   *
+   * @param name - The name of the model.
+   * @param modality - The modality it is used with.
+   * @param features - The features the request needs.
+   * @throws ModelCapabilityError when the model does not fit.
+   */
+  validate(name: string, modality: ModelModality, features: ModelFeature[] = []) {
+    const model = this.get(name);
+    if (model === undefined) return;
+
+    if (model.modality !== modality) throw new ModelCapabilityError(name, modality);
+    for (const feature of features)
+      if (!model.features.includes(feature)) throw new ModelCapabilityError(name, feature);
+  }
+}
+
+/**
+ * The registry shared by all wrapper instances, unless they are given their own using `setModelRegistry`.
+ */
+export const defaultModelRegistry = new ModelRegistry();
@@ -0,0 +1,189 @@
+import OpenAI, { ClientOptions } from "openai";
+import { FinalRequestOptions, Headers, multipartFormRequestOptions } from "openai/core";
+
+/**
+ * A feature a provider may or may not support.
+ * - "streamUsage": the server sends the token usage at the end of a stream when asked via `stream_options`
+ */
+export type ProviderCapability =
+  | "chat"
+  | "tools"
+  | "jsonMode"
+  | "streamUsage"
+  | "vision"
+  | "embeddings"
+  | "speech"
+  | "transcription"
+  | "moderation"
+  | "images";
+
+/**
+ * A backend serving the OpenAI API: OpenAI itself, an Azure OpenAI resource or an OpenAI-compatible server.
+ */
+export interface Provider {
+  name: string;
+  capabilities: ProviderCapability[];
+  // creates the SDK client, `defaults` are the options the wrapper needs (e.g. no SDK retries)
+  createClient(defaults: ClientOptions): OpenAI;
+}
+
+/**
+ * Thrown when a feature is used that the provider does not support.
+ */
+export class UnsupportedCapabilityError extends Error {
+  constructor(public readonly provider: string, public readonly capability: ProviderCapability) {
+    super(`Provider ${provider} does not support ${capability}`);
+    this.name = "UnsupportedCapabilityError";
+  }
+}
+
+/**
+ * Every capability, as supported by the OpenAI API itself.
+ */
+export const ALL_CAPABILITIES: ProviderCapability[] = [
+  "chat",
+  "tools",
+  "jsonMode",
+  "streamUsage",
+  "vision",
+  "embeddings",
+  "speech",
+  "transcription",
+  "moderation",
+  "images",
+];
+
+/**
+ * Options shared by all providers.
+ */
+export interface ProviderOptions {
+  // extra headers sent with every request
+  headers?: Record<string, string>;
+  // overrides the capabilities of the provider
+  capabilities?: ProviderCapability[];
+}
+
+/**
+ * The OpenAI API, optionally through a proxy or gateway.
+ *
+ * @param options - The API key, and optionally the organization, base URL and extra headers.
+ * @returns The provider.
+ */
+export function openAIProvider(
+  options: ProviderOptions & { apiKey: string; organization?: string; baseURL?: string }
+): Provider {
+  return {
+    name: "openai",
+    capabilities: options.capabilities ?? ALL_CAPABILITIES,
+    createClient: (defaults) =>
+      new OpenAI({
+        ...defaults,
+        apiKey: options.apiKey,
+        organization: options.organization,
+        baseURL: options.baseURL,
+        defaultHeaders: options.headers,
+      }),
+  };
+}
+
+/**
+ * An Azure OpenAI resource. Requests are sent to the deployment of the requested model.
+ *
+ * @param options - The endpoint (e.g. "https://my-resource.openai.azure.com"), API key and version, the deployment
+ * names keyed by model name (models without an entry use a deployment of the same name) and extra headers.
+ * @returns The provider.
+ */
+export function azureOpenAIProvider(
+  options: ProviderOptions & {
+    endpoint: string;
+    apiKey: string;
+    apiVersion: string;
+    deployments?: Record<string, string>;
+  }
+): Provider {
+  return {
+    name: "azure",
+    // Azure OpenAI has no moderation endpoint, content filtering is part of every request
+    capabilities:
+      options.capabilities ?? ALL_CAPABILITIES.filter((capability) => capability !== "moderation"),
+    createClient: (defaults) =>
+      new AzureOpenAIClient(options.deployments ?? {}, {
+        ...defaults,
+        apiKey: options.apiKey,
+        baseURL: `${options.endpoint.replace(/\/+$/, "")}/openai`,
+        defaultQuery: { "api-version": options.apiVersion },
+        defaultHeaders: options.headers,
+      }),
+  };
+}
+
+/**
+ * A server with an OpenAI-compatible API, like llama.cpp, vLLM or Ollama. Only chat is assumed to be supported,
+ * pass the `capabilities` of the server to enable more.
+ *
+ * @param options - The base URL (e.g. "http://localhost:11434/v1"), optionally an API key, name and extra headers.
+ * @returns The provider.
+ */
+export function compatibleProvider(
+  options: ProviderOptions & { baseURL: string; apiKey?: string; name?: string }
+): Provider {
+  return {
+    name: options.name ?? "compatible",
+    capabilities: options.capabilities ?? ["chat"],
+    createClient: (defaults) =>
+      new OpenAI({
+        ...defaults,
+        // the SDK requires a key, most local servers ignore it
+        apiKey: options.apiKey ?? "none",
+        baseURL: options.baseURL,
+        defaultHeaders: options.headers,
+      }),
+  };
+}
+
+// the endpoints Azure serves per deployment
+const DEPLOYMENT_ENDPOINTS = new Set([
+  "/chat/completions",
+  "/completions",
+  "/embeddings",
+  "/audio/speech",
+  "/audio/transcriptions",
+  "/audio/translations",
+  "/images/generations",
+]);
+
+// routes requests to /deployments/<deployment>/..., and authenticates with the api-key header
+class AzureOpenAIClient extends OpenAI {
+  constructor(protected deployments: Record<string, string>, options: ClientOptions) {
+    super(options);
+
+    // uploads are encoded as multipart forms before buildRequest sees them, so audio is routed when it is posted
+    this.audio.transcriptions.create = (body, options) =>
+      this.post(
+        this.deploymentPath(body.model, "/audio/transcriptions"),
+        multipartFormRequestOptions({ body, ...options })
+      );
+    this.audio.translations.create = (body, options) =>
+      this.post(
+        this.deploymentPath(body.model, "/audio/translations"),
+        multipartFormRequestOptions({ body, ...options })
+      );
+  }
+
+  override buildRequest<Req extends {}>(options: FinalRequestOptions<Req>) {
+    const body = options.body as Record<string, unknown> | undefined;
+
+    if (DEPLOYMENT_ENDPOINTS.has(options.path) && typeof body?.model === "string")
+      options = { ...options, path: this.deploymentPath(body.model, options.path) };
+
+    return super.buildRequest(options);
+  }
+
+  protected override authHeaders(): Headers {
+    return { "api-key": this.apiKey };
+  }
+
+  protected deploymentPath(model: string, path: string): string {
+    return `/deployments/${encodeURIComponent(this.deployments[model] ?? model)}${path}`;
+  }
+}
@@ -1,6 +1,12 @@
 import { ChatCompletionMessageParam } from "openai/resources";
 import { BehaviorSubject, Observable } from "rxjs";
-import { CompletionCreateParamsBaseOptionals, OpenAIWrapperClass } from "./openAIwrapper.class";
+import {
+  CompletionCreateParamsBaseOptionals,
+  ConversationBranch,
+  OpenAIWrapperClass,
+  ToolApprovalRequest,
+} from "./openAIwrapper.class";
+import { Provider } from "./openAIwrapperProvider";
 
 /**
  * Represents a class that extends OpenAIWrapperClass and provides additional functionality for handling API out using RXJS
@@ -31,8 +37,22 @@ export class OpenAIWrapperRXJSClass extends OpenAIWrapperClass {
     string | undefined
   >(undefined);
 
-  constructor(apiKey: string) {
-    super(apiKey);
+  /**
+   * Represents the pendingApprovals$ BehaviorSubject.
+   * It emits the tool calls waiting for approval whenever that list changes.
+   */
+  private pendingApprovals$: BehaviorSubject<ToolApprovalRequest[]> = new BehaviorSubject<
+    ToolApprovalRequest[]
+  >([]);
+
+  /**
+   * Represents the activeBranch$ BehaviorSubject.
+   * It emits the id of the active branch whenever the conversation is forked or another branch is switched to.
+   */
+  private activeBranch$: BehaviorSubject<string> = new BehaviorSubject<string>("main");
+
+  constructor(apiKeyOrProvider: string | Provider) {
+    super(apiKeyOrProvider);
   }
 
   /**
@@ -47,6 +67,25 @@ export class OpenAIWrapperRXJSClass extends OpenAIWrapperClass {
     return this;
   }
 
+  /**
+   * Sets the tool calls waiting for approval and updates the pending approvals subject.
+   * @param pendingApprovals The tool calls waiting for approval.
+   */
+  protected override _setPendingApprovals(pendingApprovals: ToolApprovalRequest[]) {
+    super._setPendingApprovals(pendingApprovals);
+    this.pendingApprovals$.next(this.pendingApprovals);
+  }
+
+  /**
+   * Makes a branch the active one and updates the active branch subject. The messages subject emits the messages of
+   * the branch.
+   * @param branch The branch to activate.
+   */
+  protected override _setActiveBranch(branch: ConversationBranch) {
+    super._setActiveBranch(branch);
+    this.activeBranch$.next(this.getActiveBranchId());
+  }
+
   /**
    * Runs the prompt stream and sets up the necessary callbacks to capture the stream delta and the concatenated stream using RXJS
    *
@@ -84,4 +123,21 @@ export class OpenAIWrapperRXJSClass extends OpenAIWrapperClass {
   getStreamConcatedAsObservable(): Observable<string | undefined> {
     return this.streamConcated$.asObservable();
   }
+
+  /**
+   * Returns an Observable that emits the tool calls waiting for approval, e.g. to show a confirm dialog.
+   * Decide on them using `resolveToolApproval`.
+   * @returns An Observable that emits the pending approval requests.
+   */
+  getPendingApprovalsAsObservable(): Observable<ToolApprovalRequest[]> {
+    return this.pendingApprovals$.asObservable();
+  }
+
+  /**
+   * Returns an Observable that emits the id of the active branch, e.g. to highlight it in a branch picker.
+   * @returns An Observable that emits the id of the active branch.
+   */
+  getActiveBranchAsObservable(): Observable<string> {
+    return this.activeBranch$.asObservable();
+  }
 }
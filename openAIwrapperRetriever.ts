@@ -0,0 +1,75 @@
+import { InMemoryVectorStore, MetadataFilter, SimilarityMetric } from "./openAIwrapperVectorStore";
+
+/**
+ * What a retriever is asked for: the latest user message, its embedding and the number of passages wanted.
+ */
+export interface RetrieverQuery {
+  text: string;
+  embedding: number[];
+  topK: number;
+}
+
+/**
+ * A passage found by a retriever. `citation` is its number in the context block, e.g. 1 for [1].
+ */
+export interface RetrievedPassage {
+  id: string;
+  text: string;
+  score: number;
+  metadata: Record<string, unknown>;
+  citation: number;
+}
+
+/**
+ * Finds the passages relevant to the latest user message, the most relevant first. The citation numbers are assigned
+ * by the wrapper.
+ */
+export type Retriever = (
+  query: RetrieverQuery
+) => Omit<RetrievedPassage, "citation">[] | Promise<Omit<RetrievedPassage, "citation">[]>;
+
+/**
+ * Options for `setRetriever`.
+ */
+export interface RetrievalOptions {
+  // the number of passages to inject, defaults to 4
+  topK?: number;
+  // the model embedding the user message, defaults to the default embedding model of the model registry; use the
+  // model the passages were embedded with
+  embeddingModel?: string;
+  // builds the context block from the passages, defaults to `formatContextWithCitations`
+  formatContext?: (passages: RetrievedPassage[]) => string;
+}
+
+/**
+ * A retriever searching an `InMemoryVectorStore`.
+ *
+ * @param store - The vector store holding the passages.
+ * @param options - Optional metric, metadata filter and minimum score of the search.
+ * @returns The retriever.
+ */
+export function vectorStoreRetriever<M extends Record<string, unknown>>(
+  store: InMemoryVectorStore<M>,
+  options: { metric?: SimilarityMetric; filter?: MetadataFilter<M>; minScore?: number } = {}
+): Retriever {
+  return ({ embedding, topK }) =>
+    store.search(embedding, { ...options, topK }).map(({ document, score }) => ({
+      id: document.id,
+      text: document.text,
+      score,
+      metadata: document.metadata,
+    }));
+}
+
+/**
+ * The default context block: the numbered passages and the instruction to cite them by number.
+ *
+ * @param passages - The retrieved passages.
+ * @returns The content of the context block.
+ */
+export function formatContextWithCitations(passages: RetrievedPassage[]): string {
+  return [
+    "Answer using the following passages where relevant. Cite the passages you use by their number, e.g. [1].",
+    ...passages.map((passage) => `[${passage.citation}] ${passage.text}`),
+  ].join("\n\n");
+}
@@ -0,0 +1,128 @@
+import OpenAI from "openai";
+
+/**
+ * When and how often a failed API call is retried.
+ */
+export interface RetryPolicy {
+  // total number of attempts, including the first one
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  // no attempt is started after this much time has passed since the first one
+  maxTotalTimeMs: number;
+  backoffFactor: number;
+  // random part of the delay, as a fraction of it (0 - 1)
+  jitter: number;
+  // decides whether an error is worth retrying, defaults to `isRetryableError`
+  retryOn?: (error: unknown) => boolean;
+  // called before every retry, e.g. for logging
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Describes a retry that is about to happen.
+ */
+export interface RetryInfo {
+  label: string;
+  // the attempt that failed, starting at 1
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  maxTotalTimeMs: 120000,
+  backoffFactor: 2,
+  jitter: 0.25,
+};
+
+/**
+ * Whether an error is transient: rate limits (429), server errors (5xx), timeouts and network failures.
+ *
+ * @param error - The error thrown by the OpenAI SDK.
+ * @returns True when retrying may help.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIUserAbortError) return false;
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (!(error instanceof OpenAI.APIError)) return false;
+
+  const shouldRetry = error.headers?.["x-should-retry"];
+  if (shouldRetry === "true") return true;
+  if (shouldRetry === "false") return false;
+
+  const status = error.status ?? 0;
+
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Reads the delay the server asked for, from the `retry-after-ms` or `retry-after` header.
+ *
+ * @param error - The error thrown by the OpenAI SDK.
+ * @returns The delay in milliseconds, or undefined when the server did not ask for one.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError) || error.headers === undefined) return undefined;
+
+  const retryAfterMs = Number(error.headers["retry-after-ms"]);
+  if (error.headers["retry-after-ms"] && !isNaN(retryAfterMs)) return retryAfterMs;
+
+  const retryAfter = error.headers["retry-after"];
+  if (!retryAfter) return undefined;
+
+  // either a number of seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Runs an async function, retrying it with exponential backoff and jitter when it fails with a retryable error.
+ *
+ * @param label - A name for the call, used in the retry info.
+ * @param fn - The function to run, receiving the attempt number starting at 1.
+ * @param policy - The retry policy.
+ * @param canRetry - Optional extra check, e.g. to not retry a stream that already emitted tokens.
+ * @param sleep - Waits the given time, replaceable for tests.
+ * @returns A promise resolving to the result of the first successful attempt.
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  canRetry: (error: unknown) => boolean = () => true,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+): Promise<T> {
+  const start = Date.now();
+  const retryOn = policy.retryOn ?? isRetryableError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !retryOn(error) || !canRetry(error)) throw error;
+
+      const backoff = Math.min(
+        policy.maxDelayMs,
+        policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1)
+      );
+      const delayMs = Math.round(
+        getRetryAfterMs(error) ?? backoff * (1 - policy.jitter * Math.random())
+      );
+
+      if (Date.now() - start + delayMs > policy.maxTotalTimeMs) throw error;
+
+      if (policy.onRetry !== undefined) policy.onRetry({ label, attempt, delayMs, error });
+
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * The rate limits of a model, as set for the organization.
+ */
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * The time source of the scheduler, replaceable by a `FakeClock` in tests.
+ */
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options for a `RateLimitScheduler`.
+ */
+export interface RateLimitSchedulerOptions {
+  // limits keyed by model name
+  limits?: Record<string, RateLimits>;
+  // limits for models that are not in `limits`, unlimited when not set
+  defaultLimits?: RateLimits;
+  clock?: SchedulerClock;
+}
+
+/**
+ * Queue and wait time statistics of a `RateLimitScheduler`.
+ */
+export interface RateLimitSchedulerStats {
+  // requests waiting for capacity
+  queueDepth: number;
+  queueDepthByModel: Record<string, number>;
+  // requests let through so far
+  granted: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  // how long the oldest waiting request has been waiting
+  oldestWaitMs: number;
+}
+
+interface Bucket {
+  capacity: number;
+  available: number;
+  // refill per millisecond
+  rate: number;
+  updatedAt: number;
+}
+
+interface QueueEntry {
+  model: string;
+  tokens: number;
+  priority: number;
+  enqueuedAt: number;
+  sequence: number;
+  resolve: () => void;
+}
+
+const realClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Schedules API requests of any number of wrapper instances within the requests-per-minute and tokens-per-minute
+ * limits of each model, using a token bucket per model and limit. Waiting requests are let through by priority
+ * (higher first), and first come, first served within the same priority.
+ */
+export class RateLimitScheduler {
+  protected limits: Record<string, RateLimits>;
+  protected defaultLimits: RateLimits;
+  protected clock: SchedulerClock;
+  protected requestBuckets: Record<string, Bucket> = {};
+  protected tokenBuckets: Record<string, Bucket> = {};
+  protected queue: QueueEntry[] = [];
+  protected sequence: number = 0;
+  protected timer: unknown = undefined;
+  protected granted: number = 0;
+  protected totalWaitMs: number = 0;
+  protected maxWaitMs: number = 0;
+
+  constructor(options: RateLimitSchedulerOptions = {}) {
+    this.limits = { ...options.limits };
+    this.defaultLimits = options.defaultLimits ?? {};
+    this.clock = options.clock ?? realClock;
+  }
+
+  /**
+   * Sets or overrides the limits of a model. Its buckets start full with the new limits.
+   *
+   * @param model - The name of the model.
+   * @param limits - The requests and tokens per minute.
+   * @returns The updated RateLimitScheduler instance.
+   */
+  setLimits(model: string, limits: RateLimits): RateLimitScheduler {
+    this.limits[model] = limits;
+    delete this.requestBuckets[model];
+    delete this.tokenBuckets[model];
+    this.dispatch();
+
+    return this;
+  }
+
+  /**
+   * Waits until a request fits in the limits of its model, and takes its share of them.
+   *
+   * @param model - The model the request is for.
+   * @param tokens - The estimated tokens of the request: the prompt tokens plus `max_tokens`.
+   * @param priority - Requests with a higher priority are let through first.
+   * @returns A promise that resolves when the request may be sent.
+   */
+  acquire(model: string, tokens: number, priority: number = 0): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push({
+        model,
+        tokens,
+        priority,
+        enqueuedAt: this.clock.now(),
+        sequence: this.sequence++,
+        resolve,
+      });
+      this.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Retrieves the queue and wait time statistics.
+   * @returns The statistics.
+   */
+  getStats(): RateLimitSchedulerStats {
+    const now = this.clock.now();
+    const queueDepthByModel: Record<string, number> = {};
+    for (const entry of this.queue)
+      queueDepthByModel[entry.model] = (queueDepthByModel[entry.model] ?? 0) + 1;
+
+    return {
+      queueDepth: this.queue.length,
+      queueDepthByModel,
+      granted: this.granted,
+      averageWaitMs: this.granted > 0 ? this.totalWaitMs / this.granted : 0,
+      maxWaitMs: this.maxWaitMs,
+      oldestWaitMs: Math.max(0, ...this.queue.map((entry) => now - entry.enqueuedAt)),
+    };
+  }
+
+  // lets through every waiting request that fits, and sets a timer for the first one that does not
+  protected dispatch() {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = this.clock.now();
+    // a request never overtakes an earlier one for the same model, so big requests do not starve
+    const blocked = new Set<string>();
+    let nextCheckMs = Infinity;
+
+    for (const entry of [...this.queue]) {
+      if (blocked.has(entry.model)) continue;
+
+      const waitMs = this.waitMs(entry, now);
+      if (waitMs > 0) {
+        blocked.add(entry.model);
+        nextCheckMs = Math.min(nextCheckMs, waitMs);
+        continue;
+      }
+
+      this.take(entry);
+      this.queue.splice(this.queue.indexOf(entry), 1);
+
+      const waitedMs = now - entry.enqueuedAt;
+      this.granted++;
+      this.totalWaitMs += waitedMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+
+      entry.resolve();
+    }
+
+    if (nextCheckMs !== Infinity)
+      this.timer = this.clock.setTimeout(() => {
+        this.timer = undefined;
+        this.dispatch();
+      }, Math.ceil(nextCheckMs));
+  }
+
+  // the time until both buckets of the model have room for the request
+  protected waitMs(entry: QueueEntry, now: number): number {
+    const requests = this.getBucket(this.requestBuckets, entry.model, "requestsPerMinute", now);
+    const tokens = this.getBucket(this.tokenBuckets, entry.model, "tokensPerMinute", now);
+
+    return Math.max(bucketWaitMs(requests, 1), bucketWaitMs(tokens, entry.tokens));
+  }
+
+  protected take(entry: QueueEntry) {
+    const requests = this.requestBuckets[entry.model];
+    const tokens = this.tokenBuckets[entry.model];
+    if (requests !== undefined) requests.available -= 1;
+    if (tokens !== undefined) tokens.available -= Math.min(entry.tokens, tokens.capacity);
+  }
+
+  protected getBucket(
+    buckets: Record<string, Bucket>,
+    model: string,
+    limit: keyof RateLimits,
+    now: number
+  ): Bucket | undefined {
+    const perMinute = (this.limits[model] ?? this.defaultLimits)[limit];
+    if (perMinute === undefined) return undefined;
+
+    const bucket = (buckets[model] ??= {
+      capacity: perMinute,
+      available: perMinute,
+      rate: perMinute / 60000,
+      updatedAt: now,
+    });
+    bucket.available = Math.min(
+      bucket.capacity,
+      bucket.available + (now - bucket.updatedAt) * bucket.rate
+    );
+    bucket.updatedAt = now;
+
+    return bucket;
+  }
+}
+
+// a request bigger than the bucket waits for a full bucket instead of forever
+function bucketWaitMs(bucket: Bucket | undefined, amount: number): number {
+  if (bucket === undefined) return 0;
+
+  const missing = Math.min(amount, bucket.capacity) - bucket.available;
+
+  return missing > 0 ? missing / bucket.rate : 0;
+}
+
+/**
+ * A clock that only moves when told to, for testing code that uses a `RateLimitScheduler`.
+ */
+export class FakeClock implements SchedulerClock {
+  protected time: number;
+  protected timers: { id: number; at: number; fn: () => void }[] = [];
+  protected nextId: number = 1;
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.push({ id, at: this.time + ms, fn });
+
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  /**
+   * Moves the clock forward, running the timers that are due on the way.
+   *
+   * @param ms - The time to move forward in milliseconds.
+   */
+  advance(ms: number): void {
+    const end = this.time + ms;
+
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.at <= end)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (due === undefined) break;
+
+      this.timers = this.timers.filter((timer) => timer !== due);
+      this.time = due.at;
+      due.fn();
+    }
+
+    this.time = end;
+  }
+}
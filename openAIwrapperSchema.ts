@@ -0,0 +1,198 @@
+/**
+ * Subset of JSON schema used for tool parameters and structured output.
+ * Only the keywords checked by `validateJsonSchema` are listed; other keywords are allowed and ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: readonly JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * The TypeScript type of the values matching a JSON schema written as a literal, see `runStructuredPrompt`.
+ * Keywords that do not change the type, like `minLength`, are ignored; a schema typed as `JsonSchema` gives `unknown`.
+ */
+export type InferJsonSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { anyOf: readonly (infer A)[] }
+  ? InferJsonSchema<A>
+  : S extends { type: readonly (infer T)[] }
+  ? InferJsonSchemaType<T, S>
+  : S extends { type: infer T }
+  ? InferJsonSchemaType<T, S>
+  : unknown;
+
+type InferJsonSchemaType<T, S> = T extends "string"
+  ? string
+  : T extends "number" | "integer"
+  ? number
+  : T extends "boolean"
+  ? boolean
+  : T extends "null"
+  ? null
+  : T extends "array"
+  ? S extends { items: infer I }
+    ? InferJsonSchema<I>[]
+    : unknown[]
+  : T extends "object"
+  ? S extends { properties: infer P }
+    ? InferJsonSchemaProperties<P, S extends { required: readonly (infer R)[] } ? R : never>
+    : Record<string, unknown>
+  : unknown;
+
+// required properties stay required, the others become optional
+type InferJsonSchemaProperties<P, R> = Simplify<
+  { [K in keyof P as K extends R ? K : never]: InferJsonSchema<P[K]> } & {
+    [K in keyof P as K extends R ? never : K]?: InferJsonSchema<P[K]>;
+  }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Validates a value against a JSON schema.
+ *
+ * @param schema - The schema to validate against.
+ * @param value - The value to validate, e.g. parsed tool arguments.
+ * @param path - The path of the value, used as prefix in the error messages.
+ * @returns A list of human readable errors, empty when the value is valid.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string = "$"
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.anyOf !== undefined) {
+    const matches = schema.anyOf.some(
+      (option) => validateJsonSchema(option, value, path).length === 0
+    );
+    if (!matches) errors.push(`${path} does not match any of the allowed schemas`);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      errors.push(`${path} should be of type ${types.join(" | ")}, got ${typeOf(value)}`);
+
+      // the other keywords make no sense on the wrong type
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => isEqual(option, value)))
+    errors.push(
+      `${path} should be one of ${JSON.stringify(schema.enum)}, got ${JSON.stringify(value)}`
+    );
+
+  if (hasOwnKey(schema, "const") && !isEqual(schema.const, value))
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength)
+      errors.push(`${path} should have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength)
+      errors.push(`${path} should have at most ${schema.maxLength} characters`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      errors.push(`${path} should be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum)
+      errors.push(`${path} should be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems)
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems)
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    if (schema.items !== undefined) {
+      const items = schema.items;
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(items, item, `${path}[${index}]`))
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!hasOwnKey(value, key)) errors.push(`${path}.${key} is required`);
+    }
+
+    const properties = schema.properties ?? {};
+    for (const key of Object.keys(value)) {
+      if (hasOwnKey(properties, key)) {
+        errors.push(...validateJsonSchema(properties[key], value[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not an allowed property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(schema.additionalProperties, value[key], `${path}.${key}`)
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasOwnKey(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,198 @@
+import { ChatCompletion, ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources";
+import {
+  ConversationBranch,
+  OpenAIWrapperClassCount,
+  PreflightCheck,
+  ToolArgumentMode,
+  ToolErrorPolicy,
+} from "./openAIwrapper.class";
+import { CostEntry, DEFAULT_PRICES, PriceTable } from "./openAIwrapperCost";
+
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * The persisted state of a conversation: model and settings, tools, costs and the branches of the conversation with
+ * their messages, counts and received completions.
+ * Secrets and runtime handles (the client, provider, transport, callbacks, tool functions) are never part of it;
+ * tool functions are rebound by name on restore.
+ */
+export interface OpenAIWrapperSnapshot {
+  version: 2;
+  savedAt: number;
+  model: string;
+  settings: {
+    json_mode: boolean;
+    temperature: number;
+    timeout: number;
+    max_tokens?: number;
+    maxToolRounds: number;
+    streamUsage: boolean;
+    preflightCheck: PreflightCheck;
+    structuredRepairAttempts: number;
+    toolErrorPolicy: ToolErrorPolicy;
+    // left out when unlimited, JSON has no Infinity
+    toolConcurrency?: number;
+    toolTimeout?: number;
+    toolTimeouts: Record<string, number>;
+    debug: boolean;
+  };
+  tools: ChatCompletionTool[];
+  toolArgumentModes: Record<string, ToolArgumentMode>;
+  cost: { entries: CostEntry[]; prices: PriceTable };
+  budgetWarningsSent: string[];
+  // missing in snapshots written before requests were counted, the cost entries are used instead
+  requestCount?: number;
+  activeBranch: string;
+  branches: ConversationBranch[];
+}
+
+/**
+ * Options for `restoreSnapshot`.
+ */
+export interface RestoreSnapshotOptions {
+  // replace the prices of this instance by the ones saved in the snapshot, defaults to false
+  restorePrices?: boolean;
+}
+
+/**
+ * Thrown when a snapshot was written by a newer version than this code knows.
+ */
+export class SnapshotVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`Snapshot version ${version} is newer than the supported version ${SNAPSHOT_VERSION}`);
+    this.name = "SnapshotVersionError";
+  }
+}
+
+/**
+ * A snapshot of version 1, which had a single thread instead of branches.
+ */
+export interface OpenAIWrapperSnapshotV1
+  extends Omit<OpenAIWrapperSnapshot, "version" | "requestCount" | "activeBranch" | "branches"> {
+  version: 1;
+  messages: ChatCompletionMessageParam[];
+  counts: OpenAIWrapperClassCount;
+  needsToolRun: boolean;
+  receivedCompletions: ChatCompletion[];
+}
+
+/**
+ * The reflective JSON of the former `toJSON`, which had no version field. Every field may be missing.
+ */
+export interface LegacyWrapperJSON {
+  version?: undefined;
+  model?: string;
+  json_mode?: boolean;
+  temperature?: number;
+  timeout?: number;
+  max_tokens?: number;
+  maxToolRounds?: number;
+  streamUsage?: boolean;
+  preflightCheck?: PreflightCheck;
+  structuredRepairAttempts?: number;
+  toolErrorPolicy?: ToolErrorPolicy;
+  toolConcurrency?: number;
+  toolTimeout?: number;
+  toolTimeouts?: Record<string, number>;
+  debug?: boolean;
+  messages?: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  toolArgumentModes?: Record<string, ToolArgumentMode>;
+  threadCount?: OpenAIWrapperClassCount;
+  _needsToolRun?: boolean;
+  receivedCompletions?: ChatCompletion[];
+  costLedger?: { entries?: CostEntry[]; prices?: PriceTable };
+  budgetWarningsSent?: string[];
+}
+
+/**
+ * A snapshot of any known version.
+ */
+export type VersionedSnapshot = LegacyWrapperJSON | OpenAIWrapperSnapshotV1 | OpenAIWrapperSnapshot;
+
+/**
+ * Migrations keyed by the version they migrate from, each returning the snapshot in the next version.
+ * Version 0 is the reflective JSON of the former `toJSON`.
+ */
+export const SNAPSHOT_MIGRATIONS: {
+  0: (legacy: LegacyWrapperJSON) => OpenAIWrapperSnapshotV1;
+  1: (snapshot: OpenAIWrapperSnapshotV1) => OpenAIWrapperSnapshot;
+} = {
+  0: (legacy) => ({
+    version: 1,
+    savedAt: Date.now(),
+    model: legacy.model ?? "gpt-3.5-turbo",
+    settings: {
+      json_mode: legacy.json_mode ?? false,
+      temperature: legacy.temperature ?? 1,
+      timeout: legacy.timeout ?? 600000,
+      max_tokens: legacy.max_tokens ?? undefined,
+      maxToolRounds: legacy.maxToolRounds ?? 10,
+      streamUsage: legacy.streamUsage ?? true,
+      preflightCheck: legacy.preflightCheck ?? "off",
+      structuredRepairAttempts: legacy.structuredRepairAttempts ?? 2,
+      toolErrorPolicy: legacy.toolErrorPolicy ?? "report",
+      toolConcurrency: legacy.toolConcurrency ?? undefined,
+      toolTimeout: legacy.toolTimeout ?? undefined,
+      toolTimeouts: legacy.toolTimeouts ?? {},
+      debug: legacy.debug ?? false,
+    },
+    messages: legacy.messages ?? [],
+    tools: legacy.tools ?? [],
+    toolArgumentModes: legacy.toolArgumentModes ?? {},
+    counts: legacy.threadCount ?? {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      tool_calls: 0,
+    },
+    needsToolRun: legacy._needsToolRun ?? false,
+    receivedCompletions: legacy.receivedCompletions ?? [],
+    cost: {
+      entries: legacy.costLedger?.entries ?? [],
+      prices: legacy.costLedger?.prices ?? DEFAULT_PRICES,
+    },
+    budgetWarningsSent: legacy.budgetWarningsSent ?? [],
+  }),
+  // version 1 had a single thread, which becomes the main branch
+  1: ({ messages, counts, needsToolRun, receivedCompletions, ...snapshot }) => ({
+    ...snapshot,
+    version: 2,
+    activeBranch: "main",
+    branches: [
+      {
+        id: "main",
+        forkIndex: 0,
+        createdAt: snapshot.savedAt,
+        messages,
+        receivedCompletions,
+        counts,
+        needsToolRun,
+      },
+    ],
+  }),
+};
+
+/**
+ * Brings a snapshot of any known version up to the current version.
+ *
+ * @param snapshot - The parsed snapshot.
+ * @returns The snapshot in the current version.
+ * @throws SnapshotVersionError when the snapshot is newer than this code.
+ */
+export function migrateSnapshot(snapshot: unknown): OpenAIWrapperSnapshot {
+  if (snapshot === null || typeof snapshot !== "object") throw new Error("Invalid snapshot");
+
+  const version: unknown = (snapshot as { version?: unknown }).version;
+  if (version !== undefined && version !== 1 && version !== SNAPSHOT_VERSION) {
+    if (typeof version === "number" && version > SNAPSHOT_VERSION)
+      throw new SnapshotVersionError(version);
+    throw new Error(`Invalid snapshot version ${String(version)}`);
+  }
+
+  let current = snapshot as VersionedSnapshot;
+  if (current.version === undefined) current = SNAPSHOT_MIGRATIONS[0](current);
+  if (current.version === 1) current = SNAPSHOT_MIGRATIONS[1](current);
+
+  return current;
+}
@@ -0,0 +1,158 @@
+import * as fs from "fs";
+
+/**
+ * The maximum input of a speech request, see https://platform.openai.com/docs/api-reference/audio/createSpeech
+ */
+export const SPEECH_MAX_CHARACTERS = 4096;
+
+/**
+ * The voices of the speech models.
+ */
+export type SpeechVoice = "alloy" | "echo" | "fable" | "onyx" | "nova" | "shimmer";
+
+/**
+ * The formats long speech can be produced in. They all consist of frames or pages that can be joined back to back;
+ * FLAC cannot, its header describes the whole file.
+ */
+export type LongSpeechFormat = "mp3" | "opus" | "aac";
+
+/**
+ * Where long speech is written to as it is synthesized: the path of a file, or a writable stream (which is not ended).
+ */
+export type SpeechOutput = string | NodeJS.WritableStream;
+
+/**
+ * The progress of long speech, reported every time a chunk has been written in order.
+ */
+export interface SpeechProgress {
+  // the index of the chunk just written, starting at 0
+  chunk: number;
+  totalChunks: number;
+  characters: number;
+  totalCharacters: number;
+  bytes: number;
+}
+
+/**
+ * Options for `runLongSpeechPrompt`.
+ */
+export interface LongSpeechOptions {
+  // defaults to the default speech model of the model registry
+  model?: string;
+  // defaults to "alloy"
+  voice?: SpeechVoice;
+  // defaults to "mp3"
+  response_format?: LongSpeechFormat;
+  // between 0.25 and 4.0
+  speed?: number;
+  // the maximum length of a chunk, defaults to SPEECH_MAX_CHARACTERS
+  maxCharacters?: number;
+  // the number of chunks synthesized at the same time, defaults to 4
+  concurrency?: number;
+  // writes the audio to a file or stream as it arrives instead of keeping it in memory
+  output?: SpeechOutput;
+  onProgress?: (progress: SpeechProgress) => void;
+}
+
+/**
+ * The result of long speech. The audio is only kept when it was not written to an output.
+ */
+export interface LongSpeechResult {
+  audio?: Buffer;
+  chunks: number;
+  characters: number;
+  bytes: number;
+}
+
+/**
+ * Splits text into chunks of at most `maxCharacters`, at sentence boundaries where possible. Sentences longer than a
+ * chunk are split between words, and words longer than a chunk are cut.
+ *
+ * @param text - The text to split.
+ * @param maxCharacters - The maximum length of a chunk.
+ * @returns The chunks, without empty ones.
+ */
+export function splitSpeechText(
+  text: string,
+  maxCharacters: number = SPEECH_MAX_CHARACTERS
+): string[] {
+  const chunks: string[] = [];
+  let chunk = "";
+
+  const add = (piece: string, separator: string) => {
+    if (chunk === "") chunk = piece;
+    else if (chunk.length + separator.length + piece.length <= maxCharacters)
+      chunk += separator + piece;
+    else {
+      chunks.push(chunk);
+      chunk = piece;
+    }
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    // a paragraph break is kept as a longer pause
+    let separator = "\n\n";
+
+    for (const sentence of splitSentences(paragraph)) {
+      if (sentence.length <= maxCharacters) add(sentence, separator);
+      else
+        for (const word of sentence.split(" ")) {
+          for (let start = 0; start < word.length; start += maxCharacters)
+            add(word.slice(start, start + maxCharacters), start === 0 ? separator : "");
+          separator = " ";
+        }
+
+      separator = " ";
+    }
+  }
+  if (chunk !== "") chunks.push(chunk);
+
+  return chunks;
+}
+
+/**
+ * Opens an output for long speech.
+ *
+ * @param output - The path of a file, or a writable stream.
+ * @returns Functions to write audio to the output in order and to close it; `close` takes whether the speech failed,
+ * which removes a partially written file.
+ */
+export function openSpeechOutput(output: SpeechOutput): {
+  write: (audio: Buffer) => Promise<void>;
+  close: (failed: boolean) => Promise<void>;
+} {
+  const stream = typeof output === "string" ? fs.createWriteStream(output) : output;
+  let streamError: Error | undefined = undefined;
+  const onError = (error: Error) => (streamError = error);
+  stream.on("error", onError);
+
+  return {
+    // waits for the stream to take the audio, so a slow output holds back the download of further chunks
+    write: (audio) =>
+      new Promise((resolve, reject) => {
+        if (streamError !== undefined) return reject(streamError);
+        stream.write(audio, (error) => (error ? reject(error) : resolve()));
+      }),
+
+    close: (failed) =>
+      new Promise((resolve, reject) => {
+        stream.removeListener("error", onError);
+        if (typeof output !== "string") return resolve();
+
+        const file = stream as fs.WriteStream;
+        if (failed) {
+          file.destroy();
+          return fs.unlink(output, () => resolve());
+        }
+        file.end((error?: Error | null) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+// sentences end with ., ! or ? (also followed by quotes or brackets) and white space; the punctuation stays with them
+function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?…]["'”’)\]]*)\s+/)
+    .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+    .filter((sentence) => sentence !== "");
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { OpenAIWrapperSnapshot } from "./openAIwrapperSnapshot";
+
+/**
+ * Where snapshots are kept, keyed by an id like a session id. Loaded snapshots may be of an older version, they are
+ * migrated on restore.
+ */
+export interface SnapshotStorage {
+  load(id: string): Promise<unknown | undefined>;
+  save(id: string, snapshot: OpenAIWrapperSnapshot): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<string[]>;
+}
+
+/**
+ * Keeps snapshots in memory, e.g. for tests or short-lived processes. Snapshots are stored as JSON, so later changes to
+ * an instance do not leak into a saved snapshot.
+ */
+export class InMemorySnapshotStorage implements SnapshotStorage {
+  protected snapshots: Map<string, string> = new Map();
+
+  async load(id: string): Promise<unknown | undefined> {
+    const json = this.snapshots.get(id);
+
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  async save(id: string, snapshot: OpenAIWrapperSnapshot): Promise<void> {
+    this.snapshots.set(id, JSON.stringify(snapshot));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.snapshots.delete(id);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.snapshots.keys()];
+  }
+}
+
+/**
+ * Keeps every snapshot in a JSON file of its own in a directory, so sessions survive restarts.
+ * Files are written to a temporary file first and then renamed, so a crash never leaves half a snapshot.
+ */
+export class FileSnapshotStorage implements SnapshotStorage {
+  constructor(protected directory: string) {}
+
+  async load(id: string): Promise<unknown | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  async save(id: string, snapshot: OpenAIWrapperSnapshot): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = this.file(id);
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(snapshot, null, 2));
+    await fs.rename(temporary, file);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.file(id), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => decodeURIComponent(file.slice(0, -".json".length)));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  // ids are encoded, so any id is a safe file name
+  protected file(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Tiktoken,
+  TiktokenEncoding,
+  TiktokenModel,
+  getEncoding,
+  getEncodingNameForModel,
+} from "js-tiktoken";
+import { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources";
+import { getDataUrlImageDimensions } from "./openAIwrapperImage";
+
+// token overhead of the chat format, see https://cookbook.openai.com/examples/how_to_count_tokens_with_tiktoken
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const TOKENS_REPLY_PRIMING = 3;
+const TOKENS_TOOLS_OVERHEAD = 12;
+
+// the encodings are big, so they are loaded once and only when needed
+const encodings: Partial<Record<TiktokenEncoding, Tiktoken>> = {};
+
+/**
+ * Returns the BPE encoding used by a model, cl100k_base for models the tokenizer does not know.
+ *
+ * @param model - The name of the model.
+ * @returns The encoding.
+ */
+export function getEncodingForModel(model: string): Tiktoken {
+  let name: TiktokenEncoding;
+  try {
+    name = getEncodingNameForModel(model as TiktokenModel);
+  } catch (e) {
+    name = model.startsWith("gpt-4o") ? "o200k_base" : "cl100k_base";
+  }
+
+  return (encodings[name] ??= getEncoding(name));
+}
+
+/**
+ * Counts the tokens of a text.
+ *
+ * @param text - The text to count.
+ * @param model - The model whose encoding to use.
+ * @returns The number of tokens.
+ */
+export function countTokens(text: string, model: string): number {
+  return getEncodingForModel(model).encode(text).length;
+}
+
+/**
+ * Estimates the tokens of an image part in a vision request.
+ *
+ * @see https://platform.openai.com/docs/guides/vision/calculating-costs
+ *
+ * @param detail - The detail level of the image.
+ * @param width - The width of the image in pixels, if known.
+ * @param height - The height of the image in pixels, if known.
+ * @returns The number of tokens. Without dimensions, a 1024x1024 image is assumed.
+ */
+export function countImageTokens(
+  detail: "auto" | "low" | "high" = "auto",
+  width: number = 1024,
+  height: number = 1024
+): number {
+  if (detail === "low") return 85;
+
+  // fit within 2048x2048, then scale the shortest side down to 768
+  let scale = Math.min(1, 2048 / Math.max(width, height));
+  let w = width * scale;
+  let h = height * scale;
+  scale = Math.min(1, 768 / Math.min(w, h));
+  w *= scale;
+  h *= scale;
+
+  return 85 + 170 * Math.ceil(w / 512) * Math.ceil(h / 512);
+}
+
+/**
+ * Counts the tokens a list of messages - and optionally tool definitions - takes up in a chat request,
+ * including the per-message overhead of the chat format.
+ *
+ * @param messages - The messages to count.
+ * @param model - The model whose encoding to use.
+ * @param tools - The tool definitions sent with the request.
+ * @returns The number of prompt tokens.
+ */
+export function countMessageTokens(
+  messages: ChatCompletionMessageParam[],
+  model: string,
+  tools: ChatCompletionTool[] = []
+): number {
+  let tokens = TOKENS_REPLY_PRIMING;
+
+  for (const message of messages) {
+    tokens += TOKENS_PER_MESSAGE + countTokens(message.role, model);
+
+    if (typeof message.content === "string") {
+      tokens += countTokens(message.content, model);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part.type === "text") {
+          tokens += countTokens(part.text, model);
+        } else {
+          // the size of inline images is known, other URLs count as 1024x1024
+          const dimensions = getDataUrlImageDimensions(part.image_url.url);
+          tokens += countImageTokens(part.image_url.detail, dimensions?.width, dimensions?.height);
+        }
+      }
+    }
+
+    if ("name" in message && message.name)
+      tokens += TOKENS_PER_NAME + countTokens(message.name, model);
+
+    if (message.role === "assistant" && message.tool_calls) {
+      for (const toolCall of message.tool_calls) {
+        tokens += countTokens(toolCall.function.name, model);
+        tokens += countTokens(toolCall.function.arguments, model);
+      }
+    }
+  }
+
+  if (tools.length > 0) {
+    tokens +=
+      TOKENS_TOOLS_OVERHEAD +
+      countTokens(JSON.stringify(tools.map((tool) => tool.function)), model);
+  }
+
+  return tokens;
+}
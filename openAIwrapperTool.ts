@@ -0,0 +1,191 @@
+import { ChatCompletionTool } from "openai/resources";
+import { JsonSchema } from "./openAIwrapperSchema";
+
+/**
+ * A parameter in a typed tool definition: the JSON schema of the parameter and - at type level only - its TypeScript type.
+ */
+export interface ParamSchema<T, Optional extends boolean = false> {
+  readonly schema: JsonSchema;
+  readonly isOptional: Optional;
+  // only there to carry the TypeScript type, never set
+  readonly __type?: T;
+
+  /**
+   * Marks the parameter as optional, so it is left out of `required`.
+   */
+  optional(): ParamSchema<T, true>;
+
+  /**
+   * Adds a description to the parameter, which helps the model to fill it in.
+   */
+  describe(description: string): ParamSchema<T, Optional>;
+}
+
+/**
+ * The parameters of a typed tool, keyed by name.
+ */
+export type ParamShape = Record<string, ParamSchema<unknown, boolean>>;
+
+/**
+ * The TypeScript type of a parameter.
+ */
+export type InferParam<P> = P extends ParamSchema<infer T, boolean> ? T : never;
+
+/**
+ * The TypeScript type of the argument object for the given parameters - optional parameters become optional properties.
+ */
+export type InferParams<S extends ParamShape> = Simplify<
+  {
+    [K in keyof S as S[K] extends ParamSchema<unknown, true> ? never : K]: InferParam<S[K]>;
+  } & {
+    [K in keyof S as S[K] extends ParamSchema<unknown, true> ? K : never]?: InferParam<S[K]>;
+  }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Options shared by all parameter builders.
+ */
+export interface ParamOptions {
+  description?: string;
+}
+
+/**
+ * A tool definition with its implementation, created by `defineTool` and added using `addDefinedTool`.
+ */
+export interface ToolDefinition<S extends ParamShape = ParamShape> {
+  tool: ChatCompletionTool;
+  // a method, so definitions with any parameters fit `ToolDefinition` without a type argument
+  fn(args: InferParams<S>): unknown;
+}
+
+/**
+ * Defines a tool with typed parameters. The JSON schema for the model is generated from `params`,
+ * and the argument object of the implementation is typed after it - so a mismatch is a compile error.
+ *
+ * @example
+ * const weatherTool = defineTool(
+ *   {
+ *     name: "get_current_weather",
+ *     description: "Get the current weather in a given location",
+ *     params: {
+ *       location: string().describe("The city and state, e.g. San Francisco, CA"),
+ *       unit: enumOf("celsius", "fahrenheit").optional(),
+ *     },
+ *   },
+ *   ({ location, unit }) => getCurrentWeather(location, unit)
+ * );
+ *
+ * @param config - The name, description and parameters of the tool.
+ * @param impl - The JS function to run, receiving the validated argument object.
+ * @returns The tool definition, to pass to `addDefinedTool`.
+ */
+export function defineTool<S extends ParamShape>(
+  config: { name: string; description?: string; params: S },
+  impl: (args: InferParams<S>) => unknown
+): ToolDefinition<S> {
+  return {
+    tool: {
+      type: "function",
+      function: {
+        name: config.name,
+        description: config.description,
+        parameters: object(config.params).schema,
+      },
+    },
+    fn: impl,
+  };
+}
+
+/**
+ * A string parameter.
+ */
+export function string(
+  options: ParamOptions & { minLength?: number; maxLength?: number } = {}
+): ParamSchema<string> {
+  return makeParam({ type: "string", ...options });
+}
+
+/**
+ * A number parameter.
+ */
+export function number(
+  options: ParamOptions & { minimum?: number; maximum?: number } = {}
+): ParamSchema<number> {
+  return makeParam({ type: "number", ...options });
+}
+
+/**
+ * An integer parameter.
+ */
+export function integer(
+  options: ParamOptions & { minimum?: number; maximum?: number } = {}
+): ParamSchema<number> {
+  return makeParam({ type: "integer", ...options });
+}
+
+/**
+ * A boolean parameter.
+ */
+export function boolean(options: ParamOptions = {}): ParamSchema<boolean> {
+  return makeParam({ type: "boolean", ...options });
+}
+
+/**
+ * A parameter that must be one of the given values.
+ */
+export function enumOf<V extends string | number>(...values: V[]): ParamSchema<V> {
+  return makeParam({
+    type: values.every((value) => typeof value === "number") ? "number" : "string",
+    enum: values,
+  });
+}
+
+/**
+ * An array parameter, with items of the given parameter type.
+ */
+export function arrayOf<T>(
+  items: ParamSchema<T, boolean>,
+  options: ParamOptions & { minItems?: number; maxItems?: number } = {}
+): ParamSchema<T[]> {
+  return makeParam({ type: "array", items: items.schema, ...options });
+}
+
+/**
+ * A nested object parameter.
+ */
+export function object<S extends ParamShape>(
+  shape: S,
+  options: ParamOptions = {}
+): ParamSchema<InferParams<S>> {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const key of Object.keys(shape)) {
+    properties[key] = shape[key].schema;
+    if (!shape[key].isOptional) required.push(key);
+  }
+
+  return makeParam({
+    type: "object",
+    ...options,
+    properties,
+    required,
+    additionalProperties: false,
+  });
+}
+
+function makeParam<T>(schema: JsonSchema): ParamSchema<T> {
+  const build = <Optional extends boolean>(
+    schema: JsonSchema,
+    isOptional: Optional
+  ): ParamSchema<T, Optional> => ({
+    schema,
+    isOptional,
+    optional: () => build(schema, true),
+    describe: (description) => build({ ...schema, description }, isOptional),
+  });
+
+  return build(schema, false);
+}
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ReadableStream } from "stream/web";
+import { Fetch } from "openai/core";
+import { fetch as sdkFetch } from "openai/_shims/index";
+
+/**
+ * Sends the HTTP requests of the SDK. It has the signature of `fetch`, see `setTransport`.
+ */
+export type Transport = Fetch;
+
+/**
+ * A recorded request and its response.
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    // path and query, without the host, so a cassette replays against any base URL
+    url: string;
+    // the parsed JSON body, or the raw text; undefined for multipart uploads
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // exactly one of these is set: text bodies, the received chunks of a stream, or binary bodies (e.g. speech)
+    body?: string;
+    chunks?: string[];
+    base64?: string;
+  };
+}
+
+/**
+ * The content of a cassette file.
+ */
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode when a request has no matching interaction left in the cassette.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(public readonly method: string, public readonly url: string) {
+    super(`No recorded interaction left for ${method} ${url}`);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+// the body is stored decoded, and cookies are not worth keeping
+const SKIPPED_HEADERS = ["content-encoding", "content-length", "transfer-encoding", "set-cookie"];
+
+/**
+ * A transport that sends the requests and records them with their responses to a cassette file. The file is
+ * rewritten after every interaction; a new recording replaces an existing file.
+ *
+ * @param file - The path of the cassette file, its directory is created when missing.
+ * @param fetch - The transport that actually sends the requests, defaults to the one of the SDK.
+ * @returns The transport.
+ */
+export function recordingTransport(file: string, fetch: Fetch = sdkFetch): Transport {
+  const cassette: Cassette = { version: 1, interactions: [] };
+  const save = (interaction: CassetteInteraction) => {
+    cassette.interactions.push(interaction);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2));
+  };
+
+  return async (url, init) => {
+    const request = toCassetteRequest(String(url), init?.method, init?.body);
+    const response = await fetch(url, init);
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!SKIPPED_HEADERS.includes(key.toLowerCase())) headers[key] = value;
+    });
+    const contentType = headers["content-type"] ?? "";
+
+    // streams are passed on chunk by chunk while recording, so the caller still receives them live
+    if (contentType.includes("text/event-stream") && response.body) {
+      const chunks: string[] = [];
+      const iterator = (response.body as unknown as AsyncIterable<Uint8Array>)[
+        Symbol.asyncIterator
+      ]();
+      const decoder = new TextDecoder();
+
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { value, done } = await iterator.next();
+          if (done) {
+            save({ request, response: { status: response.status, headers, chunks } });
+            controller.close();
+            return;
+          }
+          chunks.push(decoder.decode(value, { stream: true }));
+          controller.enqueue(value);
+        },
+      });
+
+      return makeResponse(body, response.status, headers);
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    save({
+      request,
+      response: isText(contentType)
+        ? { status: response.status, headers, body: buffer.toString("utf8") }
+        : { status: response.status, headers, base64: buffer.toString("base64") },
+    });
+
+    return makeResponse(buffer, response.status, headers);
+  };
+}
+
+/**
+ * A transport that answers requests from a cassette file without any network access. Each request gets the first
+ * interaction not used yet with the same method, URL and body, so repeated identical requests replay in order.
+ *
+ * @param cassette - The path of the cassette file, or the cassette itself.
+ * @returns The transport.
+ * @throws CassetteMismatchError (from the transport) when a request has no matching interaction left.
+ */
+export function replayTransport(cassette: string | Cassette): Transport {
+  const recorded: Cassette =
+    typeof cassette === "string" ? JSON.parse(fs.readFileSync(cassette, "utf8")) : cassette;
+  const used = new Set<number>();
+
+  return async (url, init) => {
+    const request = toCassetteRequest(String(url), init?.method, init?.body);
+    const key = JSON.stringify(request);
+
+    const index = recorded.interactions.findIndex(
+      (interaction, i) => !used.has(i) && JSON.stringify(interaction.request) === key
+    );
+    if (index === -1) throw new CassetteMismatchError(request.method, request.url);
+    used.add(index);
+
+    const { status, headers, body, chunks, base64 } = recorded.interactions[index].response;
+
+    if (chunks !== undefined) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+          controller.close();
+        },
+      });
+
+      return makeResponse(stream, status, headers);
+    }
+
+    return makeResponse(
+      base64 !== undefined ? Buffer.from(base64, "base64") : body ?? "",
+      status,
+      headers
+    );
+  };
+}
+
+function toCassetteRequest(
+  url: string,
+  method: string | undefined,
+  body: unknown
+): CassetteInteraction["request"] {
+  const parsed = new URL(url);
+  const request: CassetteInteraction["request"] = {
+    method: (method ?? "GET").toUpperCase(),
+    url: parsed.pathname + parsed.search,
+  };
+
+  if (typeof body === "string") {
+    try {
+      request.body = JSON.parse(body);
+    } catch (e) {
+      request.body = body;
+    }
+  }
+
+  return request;
+}
+
+function isText(contentType: string): boolean {
+  return /^text\/|json|xml/.test(contentType);
+}
+
+// the SDK only needs the fetch Response interface, which the global Response implements
+function makeResponse(
+  body: Buffer | string | ReadableStream<Uint8Array>,
+  status: number,
+  headers: Record<string, string>
+) {
+  return new Response(body as BodyInit, { status, headers }) as unknown as Awaited<
+    ReturnType<Fetch>
+  >;
+}
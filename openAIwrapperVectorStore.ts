@@ -0,0 +1,238 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/**
+ * A document in the vector store: its text, the embedding of the text and metadata to filter on.
+ */
+export interface VectorDocument<M extends Record<string, unknown> = Record<string, unknown>> {
+  id: string;
+  text: string;
+  embedding: number[];
+  metadata: M;
+}
+
+/**
+ * How similar two embeddings are. OpenAI embeddings are normalized, so both give the same ranking for them; "dot" is
+ * faster.
+ */
+export type SimilarityMetric = "cosine" | "dot";
+
+/**
+ * Restricts a search to documents with matching metadata: either a function, or an object whose keys must all match -
+ * a value matches when it is equal, or included when the filter value is an array.
+ */
+export type MetadataFilter<M extends Record<string, unknown> = Record<string, unknown>> =
+  | Partial<Record<keyof M, unknown>>
+  | ((metadata: M) => boolean);
+
+/**
+ * Options for `search`.
+ */
+export interface VectorSearchOptions<M extends Record<string, unknown> = Record<string, unknown>> {
+  // the number of results, defaults to 4
+  topK?: number;
+  // defaults to "cosine"
+  metric?: SimilarityMetric;
+  filter?: MetadataFilter<M>;
+  // results scoring below are left out
+  minScore?: number;
+}
+
+/**
+ * A search result, the higher the score the more similar the document.
+ */
+export interface VectorSearchResult<M extends Record<string, unknown> = Record<string, unknown>> {
+  document: VectorDocument<M>;
+  score: number;
+}
+
+/**
+ * Thrown when an embedding does not have the dimensions of the embeddings already in the store, e.g. because they
+ * were created by different models.
+ */
+export class VectorDimensionError extends Error {
+  constructor(public readonly expected: number, public readonly actual: number) {
+    super(
+      `Embedding has ${actual} dimensions, the store holds embeddings of ${expected} dimensions`
+    );
+    this.name = "VectorDimensionError";
+  }
+}
+
+/**
+ * Keeps documents with their embeddings in memory and finds the most similar ones by brute force - fast enough for
+ * a few thousand documents, without running a database. Stores can be saved to and loaded from a JSON file.
+ */
+export class InMemoryVectorStore<M extends Record<string, unknown> = Record<string, unknown>> {
+  protected documents: Map<string, VectorDocument<M>> = new Map();
+  // the norms are needed for every cosine comparison, so they are computed once
+  protected norms: Map<string, number> = new Map();
+
+  /**
+   * Adds documents, replacing documents with the same id.
+   *
+   * @param documents - The documents to add.
+   * @returns The updated InMemoryVectorStore instance.
+   * @throws VectorDimensionError when an embedding has other dimensions than the ones in the store.
+   */
+  upsert(...documents: VectorDocument<M>[]): InMemoryVectorStore<M> {
+    for (const document of documents) {
+      this.checkDimensions(document.embedding, document.id);
+      this.documents.set(document.id, document);
+      this.norms.set(document.id, norm(document.embedding));
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes documents, ids that are not in the store are ignored.
+   *
+   * @param ids - The ids of the documents to remove.
+   * @returns The updated InMemoryVectorStore instance.
+   */
+  delete(...ids: string[]): InMemoryVectorStore<M> {
+    for (const id of ids) {
+      this.documents.delete(id);
+      this.norms.delete(id);
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns a document by id.
+   *
+   * @param id - The id of the document.
+   * @returns The document, or undefined if it is not in the store.
+   */
+  get(id: string): VectorDocument<M> | undefined {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Returns all documents in the store.
+   * @returns The documents, in the order they were first added.
+   */
+  list(): VectorDocument<M>[] {
+    return [...this.documents.values()];
+  }
+
+  /**
+   * Returns the number of documents in the store.
+   * @returns The number of documents.
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Finds the documents most similar to an embedding, e.g. the embedding of a question.
+   *
+   * @param embedding - The embedding to compare with, created by the same model as the stored ones.
+   * @param options - Optional number of results, metric, metadata filter and minimum score.
+   * @returns The most similar documents, the most similar first.
+   * @throws VectorDimensionError when the embedding has other dimensions than the ones in the store.
+   */
+  search(embedding: number[], options: VectorSearchOptions<M> = {}): VectorSearchResult<M>[] {
+    const { topK = 4, metric = "cosine", filter, minScore = -Infinity } = options;
+    this.checkDimensions(embedding);
+
+    const queryNorm = norm(embedding);
+    const results: VectorSearchResult<M>[] = [];
+
+    for (const document of this.documents.values()) {
+      if (filter !== undefined && !matchesFilter(document.metadata, filter)) continue;
+
+      let score = dot(embedding, document.embedding);
+      if (metric === "cosine") {
+        const norms = queryNorm * (this.norms.get(document.id) ?? 0);
+        score = norms === 0 ? 0 : score / norms;
+      }
+
+      if (score >= minScore) results.push({ document, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Serializes the store.
+   * @returns A plain object, safe to pass to JSON.stringify.
+   */
+  toJSON(): { version: 1; documents: VectorDocument<M>[] } {
+    return { version: 1, documents: this.list() };
+  }
+
+  /**
+   * Restores a store serialized with `toJSON`.
+   *
+   * @param json - The serialized store.
+   * @returns The restored InMemoryVectorStore instance.
+   */
+  static fromJSON<M extends Record<string, unknown> = Record<string, unknown>>(json: {
+    version: 1;
+    documents: VectorDocument<M>[];
+  }): InMemoryVectorStore<M> {
+    if (json.version !== 1) throw new Error(`Unsupported vector store version ${json.version}`);
+
+    return new InMemoryVectorStore<M>().upsert(...json.documents);
+  }
+
+  /**
+   * Saves the store to a JSON file. The file is written to a temporary file first and then renamed, so a crash never
+   * leaves half a store.
+   *
+   * @param file - The path of the file, its directory is created when missing.
+   */
+  async save(file: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(this));
+    await fs.rename(temporary, file);
+  }
+
+  /**
+   * Loads a store saved with `save`.
+   *
+   * @param file - The path of the file.
+   * @returns A promise resolving to the loaded InMemoryVectorStore instance.
+   */
+  static async load<M extends Record<string, unknown> = Record<string, unknown>>(
+    file: string
+  ): Promise<InMemoryVectorStore<M>> {
+    return InMemoryVectorStore.fromJSON<M>(JSON.parse(await fs.readFile(file, "utf8")));
+  }
+
+  // all embeddings of a store have the dimensions of the first one
+  protected checkDimensions(embedding: number[], id?: string) {
+    const first = this.documents.values().next().value as VectorDocument<M> | undefined;
+    if (first === undefined || (first.id === id && this.documents.size === 1)) return;
+
+    if (embedding.length !== first.embedding.length)
+      throw new VectorDimensionError(first.embedding.length, embedding.length);
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+
+  return sum;
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(dot(vector, vector));
+}
+
+function matchesFilter<M extends Record<string, unknown>>(
+  metadata: M,
+  filter: MetadataFilter<M>
+): boolean {
+  if (typeof filter === "function") return filter(metadata);
+
+  return Object.entries(filter).every(([key, value]) =>
+    Array.isArray(value) ? value.includes(metadata[key]) : metadata[key] === value
+  );
+}
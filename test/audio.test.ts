@@ -0,0 +1,149 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { parseSubtitles } from "../openAIwrapperAudio";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+const audio = Buffer.from("fake audio");
+
+describe("subtitles", () => {
+  it("parses SRT cues with multiple lines", () => {
+    const srt =
+      "1\r\n00:00:00,000 --> 00:00:02,500\r\nHello\r\nthere.\r\n\r\n" +
+      "2\r\n00:00:02,500 --> 00:01:03,250\r\nGeneral Kenobi.\r\n";
+
+    assert.deepEqual(parseSubtitles(srt), [
+      { id: 0, start: 0, end: 2.5, text: "Hello there." },
+      { id: 1, start: 2.5, end: 63.25, text: "General Kenobi." },
+    ]);
+  });
+
+  it("parses WebVTT cues with short timestamps and cue settings", () => {
+    const vtt =
+      "WEBVTT\n\nNOTE a comment\n\n" +
+      "intro\n01:02.500 --> 01:04.000 align:start\nFirst\n\n" +
+      "01:00:00.000 --> 01:00:01.000\nSecond\n";
+
+    assert.deepEqual(parseSubtitles(vtt), [
+      { id: 0, start: 62.5, end: 64, text: "First" },
+      { id: 1, start: 3600, end: 3601, text: "Second" },
+    ]);
+  });
+});
+
+describe("transcription", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("returns the text for json and text, and records the duration", async () => {
+    server.reply(
+      "transcriptions",
+      { text: "Hello there.", duration: 30 },
+      { text: "General Kenobi.", duration: 90 }
+    );
+    const thread = createFakeThread(server);
+
+    await thread.runTranscriptionPrompt(audio, { filename: "hello.mp3" });
+    assert.deepEqual(thread.getLastResponseAsTranscriptionResult(), {
+      text: "Hello there.",
+      format: "json",
+    });
+    await thread.runTranscriptionPrompt(audio, { filename: "hello.mp3", response_format: "text" });
+    assert.deepEqual(thread.getLastResponseAsTranscriptionResult(), {
+      text: "General Kenobi.",
+      format: "text",
+    });
+
+    // the duration is only sent with verbose_json
+    const requests = server.getRequests("transcriptions");
+    assert.deepEqual(
+      requests.map((request) => request.body.response_format),
+      ["verbose_json", "verbose_json"]
+    );
+    assert.equal(requests[0].body.file.filename, "hello.mp3");
+    const entries = thread.getCostLedger().getEntries();
+    assert.deepEqual(
+      entries.map(({ modality, model, seconds }) => ({ modality, model, seconds })),
+      [
+        { modality: "transcription", model: "whisper-1", seconds: 30 },
+        { modality: "transcription", model: "whisper-1", seconds: 90 },
+      ]
+    );
+    // $0.006 per minute
+    assert.ok(Math.abs(entries[0].cost - 0.003) < 1e-12);
+    assert.ok(Math.abs(entries[1].cost - 0.009) < 1e-12);
+  });
+
+  it("returns the language, duration and segments for verbose_json", async () => {
+    server.reply("transcriptions", { text: "Bonjour.", language: "french", duration: 2 });
+    const thread = createFakeThread(server);
+
+    await thread.runTranscriptionPrompt(audio, { response_format: "verbose_json", language: "fr" });
+
+    const result = thread.getLastResponseAsTranscriptionResult();
+    assert.equal(result.format, "verbose_json");
+    assert.equal(result.language, "french");
+    assert.equal(result.duration, 2);
+    assert.deepEqual(
+      result.segments?.map(({ start, end, text }) => ({ start, end, text })),
+      [{ start: 0, end: 2, text: "Bonjour." }]
+    );
+    assert.equal(server.getRequests("transcriptions")[0].body.language, "fr");
+    assert.equal(thread.getCostLedger().getEntries()[0].seconds, 2);
+  });
+
+  for (const format of ["srt", "vtt"] as const) {
+    it(`parses ${format} subtitles and takes their end as the duration`, async () => {
+      server.reply("transcriptions", { text: "Hello there.", duration: 12.5 });
+      const thread = createFakeThread(server);
+
+      await thread.runTranscriptionPrompt(audio, { response_format: format });
+
+      const result = thread.getLastResponseAsTranscriptionResult();
+      assert.equal(result.text, "Hello there.");
+      assert.equal(result.format, format);
+      assert.deepEqual(result.segments, [{ id: 0, start: 0, end: 12.5, text: "Hello there." }]);
+      assert.match(String(result.subtitles), /00:00:12.500/);
+      assert.equal(server.getRequests("transcriptions")[0].body.response_format, format);
+      assert.equal(thread.getCostLedger().getEntries()[0].seconds, 12.5);
+    });
+  }
+
+  it("translates into English", async () => {
+    server.reply("translations", { text: "Good morning.", duration: 60 });
+    const thread = createFakeThread(server);
+
+    await thread.runAudioTranslationPrompt(audio, { response_format: "text" });
+
+    assert.deepEqual(thread.getLastResponseAsTranscriptionResult(), {
+      text: "Good morning.",
+      format: "text",
+    });
+    assert.equal(server.getRequests("transcriptions").length, 0);
+    assert.ok(Math.abs(thread.getCost() - 0.006) < 1e-12);
+  });
+
+  it("appends the text to the thread when asked to", async () => {
+    server.reply(
+      "transcriptions",
+      { text: "What is the capital of Italy?" },
+      { text: "What is the capital of France?" }
+    );
+    const thread = createFakeThread(server).appendMessage({ role: "system", content: "Be brief." });
+
+    await thread.runTranscriptionPrompt(audio);
+    assert.equal(thread.getMessages().length, 1);
+    await thread.runTranscriptionPrompt(audio, { appendAsUserMessage: true });
+    await thread.runPrompt();
+
+    assert.deepEqual(thread.getMessages().slice(0, 2), [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "What is the capital of France?" },
+    ]);
+    const [request] = server.getRequests("chat");
+    assert.equal(request.body.messages[1].content, "What is the capital of France?");
+  });
+});
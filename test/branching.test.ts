@@ -0,0 +1,122 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { BranchNotFoundError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread, getActiveCounts } from "./fakeThread";
+
+describe("branching", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("regenerates an answer in a new branch and keeps the old one", async () => {
+    const thread = createFakeThread(server);
+    server.reply("chat", { content: "First answer" }, { content: "Second answer" });
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.regenerate();
+
+    const branchId = thread.getActiveBranchId();
+    assert.notEqual(branchId, "main");
+    assert.deepEqual(
+      thread.getMessages().map((message) => message.content),
+      ["Hello", "Second answer"]
+    );
+    // the new branch only counts its own completion
+    assert.equal(
+      getActiveCounts(thread).total_tokens,
+      thread.getLastResponseAsChatCompletionResult().usage?.total_tokens
+    );
+    assert.deepEqual(
+      thread
+        .listBranches()
+        .map(({ id, parentId, forkIndex, messageCount, completionCount, active }) => ({
+          id,
+          parentId,
+          forkIndex,
+          messageCount,
+          completionCount,
+          active,
+        })),
+      [
+        {
+          id: "main",
+          parentId: undefined,
+          forkIndex: 0,
+          messageCount: 2,
+          completionCount: 1,
+          active: false,
+        },
+        {
+          id: branchId,
+          parentId: "main",
+          forkIndex: 1,
+          messageCount: 2,
+          completionCount: 1,
+          active: true,
+        },
+      ]
+    );
+
+    assert.equal(thread.switchBranch("main").getMessages()[1].content, "First answer");
+  });
+
+  it("edits a user message in a new branch", async () => {
+    const thread = createFakeThread(server);
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.appendUserMessage("What is 2 + 2?").runPrompt();
+
+    await thread.editMessage(2, "What is 3 + 3?").runPrompt();
+
+    const edited = server.getRequests("chat")[2];
+    assert.deepEqual(
+      edited.body.messages.map((message) => message.content),
+      ["Hello", "This is a fake answer.", "What is 3 + 3?"]
+    );
+    assert.equal(thread.switchBranch("main").getMessages()[2].content, "What is 2 + 2?");
+  });
+
+  it("refuses to edit assistant messages", async () => {
+    const thread = createFakeThread(server);
+    await thread.appendUserMessage("Hello").runPrompt();
+
+    assert.throws(() => thread.editMessage(1, "Changed"), /Only user and system messages/);
+  });
+
+  it("undoes the last turn with its tool calls", async () => {
+    const thread = createFakeThread(server).addToolWithFunction(
+      { name: "get_time", parameters: { type: "object", properties: {} } },
+      () => "12:00"
+    );
+    server.reply("chat", { content: "Hi!" }, { toolCalls: [{ name: "get_time", arguments: {} }] });
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.appendUserMessage("Time?").runPrompt();
+    assert.equal(thread.needsToolRun(), true);
+
+    thread.undo();
+
+    assert.equal(thread.getMessages().length, 2);
+    assert.equal(thread.needsToolRun(), false);
+  });
+
+  it("throws for an unknown branch", () => {
+    assert.throws(() => createFakeThread(server).switchBranch("nope"), BranchNotFoundError);
+  });
+
+  it("keeps the branches and the active branch in a snapshot", async () => {
+    const thread = createFakeThread(server);
+    await thread.appendUserMessage("Hello").runPrompt();
+    const branchId = thread.fork(1);
+    await thread.appendUserMessage("Other question").runPrompt();
+
+    const restored = createFakeThread(server).restoreSnapshot(
+      JSON.parse(JSON.stringify(thread.toSnapshot()))
+    );
+
+    assert.equal(restored.getActiveBranchId(), branchId);
+    assert.deepEqual(restored.listBranches(), thread.listBranches());
+    assert.equal(restored.switchBranch("main").getMessages().length, 2);
+  });
+});
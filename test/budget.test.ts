@@ -0,0 +1,66 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { BudgetExceededError, BudgetWarning } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { countTokens } from "../openAIwrapperTokenizer";
+import { createFakeThread, getActiveCounts } from "./fakeThread";
+
+describe("budget", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("refuses requests once the token limit is reached", async () => {
+    const thread = createFakeThread(server);
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    thread.setBudget({ maxTotalTokens: getActiveCounts(thread).total_tokens });
+    await assert.rejects(thread.appendUserMessage("And now?").runPrompt(), (error) => {
+      assert.ok(error instanceof BudgetExceededError);
+      assert.equal(error.limit, "maxTotalTokens");
+      return true;
+    });
+    assert.equal(server.getRequests("chat").length, 1);
+  });
+
+  it("counts requests without usage against the request limit", async () => {
+    const thread = createFakeThread(server).setBudget({ maxRequests: 2 }).setStreamUsage(false);
+
+    await thread.appendUserMessage("One").runPromptStream();
+    await thread.appendUserMessage("Two").runPromptStream();
+    await assert.rejects(thread.appendUserMessage("Three").runPromptStream(), BudgetExceededError);
+    assert.equal(server.getRequests("chat").length, 2);
+  });
+
+  it("counts the tokens of each streamed delta and aborts the stream over budget", async () => {
+    const word = "Supercalifragilisticexpialidocious";
+    // more tokens than the chunks of the stream
+    assert.ok(countTokens(word, "gpt-3.5-turbo") > 5);
+    server.reply("chat", { content: word });
+    const thread = createFakeThread(server).appendUserMessage("Say something long");
+    thread.setBudget({ maxTotalTokens: thread.estimatePromptTokens() + 5 });
+
+    await assert.rejects(thread.runPromptStream(), (error) => {
+      assert.ok(error instanceof BudgetExceededError);
+      assert.equal(error.limit, "maxTotalTokens");
+      return true;
+    });
+    assert.equal(thread.getMessages().length, 1);
+  });
+
+  it("warns when the usage crosses a threshold", async () => {
+    const warnings: BudgetWarning[] = [];
+    const thread = createFakeThread(server).setBudget({
+      maxRequests: 4,
+      warnAt: [0.5],
+      onWarning: (warning) => warnings.push(warning),
+    });
+
+    for (const message of ["One", "Two", "Three"])
+      await thread.appendUserMessage(message).runPrompt();
+
+    assert.deepEqual(warnings, [{ limit: "maxRequests", used: 2, max: 4, threshold: 0.5 }]);
+  });
+});
@@ -0,0 +1,204 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ChatCompletionMessageParam } from "openai/resources";
+import {
+  ContextStrategyContext,
+  dropOldestStrategy,
+  groupMessages,
+  keepLastTurnsStrategy,
+  summarizeStrategy,
+} from "../openAIwrapperContext";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { countMessageTokens } from "../openAIwrapperTokenizer";
+import { createFakeThread } from "./fakeThread";
+
+const system: ChatCompletionMessageParam = { role: "system", content: "Be brief." };
+const toolCall: ChatCompletionMessageParam = {
+  role: "assistant",
+  content: null,
+  tool_calls: [
+    { id: "call_1", type: "function", function: { name: "get_time", arguments: "{}" } },
+    {
+      id: "call_2",
+      type: "function",
+      function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+    },
+  ],
+};
+const history: ChatCompletionMessageParam[] = [
+  system,
+  { role: "user", content: "What time is it?" },
+  toolCall,
+  { role: "tool", tool_call_id: "call_1", content: "noon" },
+  { role: "tool", tool_call_id: "call_2", content: "sunny" },
+  { role: "assistant", content: "It is noon and sunny." },
+  { role: "user", content: "And tomorrow?" },
+  { role: "assistant", content: "No idea." },
+  { role: "user", content: "Thanks" },
+];
+
+function createContext(overrides: Partial<ContextStrategyContext> = {}): ContextStrategyContext {
+  return {
+    model: "gpt-3.5-turbo",
+    tools: [],
+    maxTokens: 0,
+    contextWindow: undefined,
+    reservedTokens: 0,
+    complete: () => Promise.reject(new Error("Not expected")),
+    ...overrides,
+  };
+}
+
+describe("groupMessages", () => {
+  it("keeps tool calls and their results in one unit", () => {
+    assert.deepEqual(groupMessages(history.slice(1, 7)), [
+      [history[1]],
+      [history[2], history[3], history[4]],
+      [history[5]],
+      [history[6]],
+    ]);
+  });
+});
+
+describe("dropOldestStrategy", () => {
+  const tokens = (messages: ChatCompletionMessageParam[]) =>
+    countMessageTokens(messages, "gpt-3.5-turbo");
+
+  it("drops the oldest units until the prompt fits", async () => {
+    const budget = tokens([system, ...history.slice(5)]);
+
+    const kept = await dropOldestStrategy(budget)(history, createContext());
+
+    assert.deepEqual(kept, [system, ...history.slice(5)]);
+  });
+
+  it("never splits a tool call from its results", async () => {
+    const budget = tokens([system, ...history.slice(3)]);
+
+    const kept = await dropOldestStrategy(budget)(history, createContext());
+
+    assert.deepEqual(kept, [system, ...history.slice(5)]);
+  });
+
+  it("defaults to the context window minus the tokens for the answer", async () => {
+    const contextWindow = tokens(history) + 10;
+
+    assert.equal(
+      (await dropOldestStrategy()(history, createContext({ contextWindow, maxTokens: 10 }))).length,
+      history.length
+    );
+    assert.ok(
+      (await dropOldestStrategy()(history, createContext({ contextWindow, maxTokens: 11 })))
+        .length < history.length
+    );
+    assert.equal(await dropOldestStrategy()(history, createContext()), history);
+  });
+
+  it("takes the reserved tokens off the budget", async () => {
+    const budget = tokens(history);
+
+    assert.deepEqual(await dropOldestStrategy(budget)(history, createContext()), history);
+    assert.deepEqual(
+      await dropOldestStrategy(budget)(history, createContext({ reservedTokens: 1 })),
+      [system, ...history.slice(2)]
+    );
+  });
+
+  it("always keeps the last message", async () => {
+    const kept = await dropOldestStrategy(1)(history, createContext());
+
+    assert.deepEqual(kept, [system, history[8]]);
+  });
+});
+
+describe("keepLastTurnsStrategy", () => {
+  it("keeps the system messages and the last turns", async () => {
+    assert.deepEqual(await keepLastTurnsStrategy(2)(history, createContext()), [
+      system,
+      ...history.slice(6),
+    ]);
+    assert.deepEqual(await keepLastTurnsStrategy(3)(history, createContext()), history);
+    assert.deepEqual(await keepLastTurnsStrategy(10)(history, createContext()), history);
+  });
+});
+
+describe("context strategies in a thread", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("summarizes tool turns as a transcript, without sending tool calls", async () => {
+    server.reply("chat", { content: "The user asked the time." }, { content: "You're welcome." });
+    const thread = createFakeThread(server)
+      .setContextStrategy(summarizeStrategy(1, "Summarize."))
+      .setMessages(history);
+
+    await thread.runPrompt();
+
+    const [summaryRequest, request] = server.getRequests("chat");
+    assert.equal(summaryRequest.body.tools, undefined);
+    assert.deepEqual(summaryRequest.body.messages, [
+      {
+        role: "user",
+        content: [
+          "The conversation so far:",
+          "",
+          "user: What time is it?",
+          "assistant called get_time({})",
+          'assistant called get_weather({"city":"Paris"})',
+          "tool get_time: noon",
+          "tool get_weather: sunny",
+          "assistant: It is noon and sunny.",
+          "user: And tomorrow?",
+          "assistant: No idea.",
+          "",
+          "Summarize.",
+        ].join("\n"),
+      },
+    ]);
+    assert.deepEqual(request.body.messages, [
+      system,
+      { role: "system", content: "Summary of the earlier conversation: The user asked the time." },
+      { role: "user", content: "Thanks" },
+    ]);
+    // the history itself is kept
+    assert.equal(thread.getMessages().length, history.length + 1);
+  });
+
+  it("reuses the summary until more turns need summarizing", async () => {
+    server.reply("chat", { content: "Summary." }, { content: "Answer." }, { content: "Again." });
+    const thread = createFakeThread(server)
+      .setContextStrategy(summarizeStrategy(1))
+      .setMessages(history);
+
+    await thread.runPrompt();
+    await thread.runPrompt();
+
+    assert.equal(server.getRequests("chat").length, 3);
+    assert.deepEqual(thread.getLastRequestMessages().slice(0, 2), [
+      system,
+      { role: "system", content: "Summary of the earlier conversation: Summary." },
+    ]);
+  });
+
+  it("leaves room for the context block of the retriever", async () => {
+    const passage = { id: "1", text: "The office opens at nine.", score: 1, metadata: {} };
+    const thread = createFakeThread(server)
+      .setRetriever(() => [passage])
+      .setMessages(history);
+    // without the context block, the whole history fits
+    const budget = thread.estimatePromptTokens();
+    thread.setContextStrategy(dropOldestStrategy(budget));
+
+    await thread.runPrompt();
+
+    const sent = thread.getLastRequestMessages();
+    assert.deepEqual(sent.at(-1), history.at(-1));
+    assert.match(String(sent.at(-2)?.content), /\[1\] The office opens at nine\./);
+    assert.ok(sent.length < history.length + 1);
+    assert.ok(countMessageTokens(sent, "gpt-3.5-turbo") <= budget);
+    assert.deepEqual(thread.getLastResponseSources(), [{ ...passage, citation: 1 }]);
+  });
+});
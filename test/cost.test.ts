@@ -0,0 +1,50 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+describe("cost", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("records the cost of every call", async () => {
+    const thread = createFakeThread(server);
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.runEmbeddingPrompt("Hello", "text-embedding-3-small");
+
+    const breakdown = thread.getCostBreakdown();
+    assert.deepEqual(Object.keys(breakdown).sort(), ["gpt-3.5-turbo", "text-embedding-3-small"]);
+    assert.equal(breakdown["gpt-3.5-turbo"].calls, 1);
+    assert.ok(thread.getCost() > 0);
+  });
+
+  it("prices gpt-3.5-turbo at its current list price", async () => {
+    const thread = createFakeThread(server);
+
+    await thread.appendUserMessage("Hello").runPrompt();
+
+    const usage = thread.getLastResponseAsChatCompletionResult().usage;
+    assert.ok(usage !== undefined);
+    const expected = (usage.prompt_tokens * 0.5 + usage.completion_tokens * 1.5) / 1_000_000;
+    assert.ok(Math.abs(thread.getCost() - expected) < 1e-12);
+  });
+
+  it("warns once per model without a price", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    try {
+      const thread = createFakeThread(server).setModel("my-local-model");
+
+      await thread.appendUserMessage("Hello").runPrompt();
+      await thread.appendUserMessage("Again").runPrompt();
+
+      assert.equal(warn.mock.callCount(), 1);
+      assert.equal(thread.getCost(), 0);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+});
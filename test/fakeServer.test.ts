@@ -0,0 +1,157 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import OpenAI, { toFile } from "openai";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+
+describe("FakeOpenAIServer", () => {
+  const server = new FakeOpenAIServer();
+  let client: OpenAI;
+
+  before(async () => {
+    client = new OpenAI({ apiKey: "test", baseURL: await server.start(), maxRetries: 0 });
+  });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("answers with a default completion and its usage", async () => {
+    const completion = await client.chat.completions.create({
+      model: "gpt-4",
+      messages: [{ role: "user", content: "Hello" }],
+    });
+
+    assert.equal(completion.model, "gpt-4");
+    assert.equal(completion.choices[0].message.content, "This is a fake answer.");
+    assert.equal(completion.choices[0].finish_reason, "stop");
+    assert.ok(completion.usage !== undefined && completion.usage.prompt_tokens > 0);
+    assert.equal(
+      completion.usage.total_tokens,
+      completion.usage.prompt_tokens + completion.usage.completion_tokens
+    );
+  });
+
+  it("uses the scripted replies in order, then the default", async () => {
+    server.reply("chat", { content: "First" }, (body) => ({
+      content: `Second, from ${body.model}`,
+    }));
+    const ask = async () =>
+      (
+        await client.chat.completions.create({
+          model: "gpt-4",
+          messages: [{ role: "user", content: "Hello" }],
+        })
+      ).choices[0].message.content;
+
+    assert.equal(await ask(), "First");
+    assert.equal(await ask(), "Second, from gpt-4");
+    assert.equal(await ask(), "This is a fake answer.");
+  });
+
+  it("sends tool calls with their arguments as JSON", async () => {
+    server.reply("chat", { toolCalls: [{ name: "get_time", arguments: { zone: "UTC" } }] });
+
+    const completion = await client.chat.completions.create({
+      model: "gpt-4",
+      messages: [{ role: "user", content: "Time?" }],
+    });
+
+    const [toolCall] = completion.choices[0].message.tool_calls ?? [];
+    assert.equal(toolCall.function.name, "get_time");
+    assert.deepEqual(JSON.parse(toolCall.function.arguments), { zone: "UTC" });
+    assert.equal(completion.choices[0].finish_reason, "tool_calls");
+  });
+
+  it("streams the content and the tool call arguments in pieces", async () => {
+    server.reply("chat", {
+      content: "Let me check.",
+      toolCalls: [{ name: "get_time", arguments: { zone: "UTC" } }],
+    });
+
+    const stream = await client.chat.completions.create({
+      model: "gpt-4",
+      messages: [{ role: "user", content: "Time?" }],
+      stream: true,
+    });
+    let content = "";
+    const argumentPieces: string[] = [];
+    let finishReason: string | null = null;
+    for await (const chunk of stream) {
+      const [choice] = chunk.choices;
+      content += choice.delta.content ?? "";
+      for (const toolCall of choice.delta.tool_calls ?? [])
+        if (toolCall.function?.arguments) argumentPieces.push(toolCall.function.arguments);
+      finishReason = choice.finish_reason ?? finishReason;
+    }
+
+    assert.equal(content, "Let me check.");
+    assert.equal(argumentPieces.length, 2);
+    assert.deepEqual(JSON.parse(argumentPieces.join("")), { zone: "UTC" });
+    assert.equal(finishReason, "tool_calls");
+  });
+
+  it("sends scripted errors with their headers", async () => {
+    server.reply("chat", { status: 429, message: "Slow down", headers: { "retry-after": "7" } });
+
+    await assert.rejects(
+      client.chat.completions.create({
+        model: "gpt-4",
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+      (error) => {
+        assert.ok(error instanceof OpenAI.APIError);
+        assert.equal(error.status, 429);
+        assert.match(error.message, /Slow down/);
+        assert.equal(error.headers?.["retry-after"], "7");
+        return true;
+      }
+    );
+  });
+
+  it("derives unit length embeddings from the text", async () => {
+    const embed = async (input: string[]) =>
+      (await client.embeddings.create({ model: "text-embedding-ada-002", input })).data.map(
+        (data) => data.embedding
+      );
+
+    const [first, second, again] = await embed(["first text", "second text", "first text"]);
+
+    assert.deepEqual(first, again);
+    assert.notDeepEqual(first, second);
+    const length = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+    assert.ok(Math.abs(length - 1) < 1e-9);
+  });
+
+  it("parses multipart uploads, with files as their name and size", async () => {
+    server.reply("transcriptions", { text: "Hello there" });
+
+    const transcription = await client.audio.transcriptions.create({
+      model: "whisper-1",
+      file: await toFile(Buffer.from("fake mp3 bytes"), "hello.mp3"),
+      language: "en",
+    });
+
+    assert.equal(transcription.text, "Hello there");
+    const [request] = server.getRequests("transcriptions");
+    assert.deepEqual(request.body.file, { filename: "hello.mp3", size: 14 });
+    assert.equal(request.body.language, "en");
+  });
+
+  it("records the requests per endpoint until it is reset", async () => {
+    await client.moderations.create({ input: "Hello" });
+    await client.embeddings.create({ model: "text-embedding-ada-002", input: "Hello" });
+
+    assert.deepEqual(
+      server.getRequests().map((request) => request.endpoint),
+      ["moderations", "embeddings"]
+    );
+    assert.equal(server.getRequests("embeddings")[0].path, "/embeddings");
+
+    server.reset();
+    assert.deepEqual(server.getRequests(), []);
+  });
+
+  it("answers unknown endpoints with a 404", async () => {
+    const response = await fetch(`${server.getBaseURL()}/assistants`, { method: "POST" });
+
+    assert.equal(response.status, 404);
+  });
+});
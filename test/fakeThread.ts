@@ -0,0 +1,28 @@
+import { OpenAIWrapperClass } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { openAIProvider } from "../openAIwrapperProvider";
+
+/**
+ * Creates a thread talking to a fake server, with retries fast enough for tests.
+ *
+ * @param server - The started fake server.
+ * @returns The thread.
+ */
+export function createFakeThread(server: FakeOpenAIServer): OpenAIWrapperClass {
+  return new OpenAIWrapperClass(
+    openAIProvider({ apiKey: "test", baseURL: server.getBaseURL() })
+  ).setRetryPolicy({ initialDelayMs: 1, maxDelayMs: 5, jitter: 0 });
+}
+
+/**
+ * The usage counted for the active branch of a thread.
+ *
+ * @param thread - The thread.
+ * @returns The token and tool call counts.
+ */
+export function getActiveCounts(thread: OpenAIWrapperClass) {
+  const branch = thread.listBranches().find((branch) => branch.active);
+  if (branch === undefined) throw new Error("No active branch");
+
+  return branch.counts;
+}
@@ -0,0 +1,172 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import {
+  DEFAULT_MODEL_PER_MODALITY,
+  ModelCapabilityError,
+  ModelRegistry,
+  defaultModelRegistry,
+} from "../openAIwrapperModels";
+import { createFakeThread } from "./fakeThread";
+
+describe("ModelRegistry", () => {
+  it("looks up models and falls back from snapshots to their base model", () => {
+    const registry = new ModelRegistry();
+
+    assert.equal(registry.get("gpt-4")?.contextWindow, 8192);
+    assert.equal(registry.get("gpt-4-0613"), registry.get("gpt-4"));
+    assert.equal(registry.get("gpt-4o-2024-05-13"), registry.get("gpt-4o"));
+    // a known model with a suffix is not a snapshot
+    assert.equal(registry.get("gpt-3.5-turbo-1106")?.name, "gpt-3.5-turbo-1106");
+    assert.equal(registry.get("my-model"), undefined);
+  });
+
+  it("lists the models, per modality when asked", () => {
+    const registry = new ModelRegistry();
+
+    assert.deepEqual(
+      registry.list("transcription").map((model) => model.name),
+      ["whisper-1"]
+    );
+    assert.ok(registry.list("chat").every((model) => model.modality === "chat"));
+    assert.equal(registry.list().length, defaultModelRegistry.list().length);
+  });
+
+  it("registers models and defaults without changing other registries", () => {
+    const registry = new ModelRegistry()
+      .register({ name: "my-model", modality: "chat", contextWindow: 4096, features: ["tools"] })
+      .register({ name: "gpt-4", modality: "chat", features: [] })
+      .setDefault("chat", "my-model");
+
+    assert.equal(registry.get("my-model")?.contextWindow, 4096);
+    assert.deepEqual(registry.get("gpt-4")?.features, []);
+    assert.equal(registry.getDefault("chat"), "my-model");
+    assert.equal(registry.getDefault("vision"), "gpt-4o");
+    assert.equal(defaultModelRegistry.get("my-model"), undefined);
+    assert.equal(defaultModelRegistry.getDefault("chat"), "gpt-3.5-turbo");
+    assert.equal(DEFAULT_MODEL_PER_MODALITY.chat, "gpt-3.5-turbo");
+  });
+
+  it("validates the modality and features of known models only", () => {
+    const registry = new ModelRegistry();
+
+    assert.doesNotThrow(() => registry.validate("gpt-4o", "chat", ["tools", "vision"]));
+    assert.doesNotThrow(() => registry.validate("my-model", "embedding", ["vision"]));
+    assert.throws(
+      () => registry.validate("gpt-4", "chat", ["tools", "json_object"]),
+      (error) => {
+        assert.ok(error instanceof ModelCapabilityError);
+        assert.equal(error.name, "ModelCapabilityError");
+        assert.equal(error.model, "gpt-4");
+        assert.equal(error.requirement, "json_object");
+        assert.equal(error.message, "Model gpt-4 does not support json_object");
+        return true;
+      }
+    );
+    assert.throws(
+      () => registry.validate("tts-1", "chat"),
+      new ModelCapabilityError("tts-1", "chat")
+    );
+  });
+});
+
+describe("model validation in a thread", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("checks the features a chat request needs before sending it", async () => {
+    const thread = createFakeThread(server)
+      .setModel("gpt-4-vision-preview")
+      .appendUserMessage("What time is it?");
+
+    await assert.rejects(
+      thread.runPrompt({ seed: 42 }),
+      new ModelCapabilityError("gpt-4-vision-preview", "seed")
+    );
+    await assert.rejects(
+      thread
+        .addTool({ name: "get_time", parameters: { type: "object", properties: {} } })
+        .runPrompt(),
+      new ModelCapabilityError("gpt-4-vision-preview", "tools")
+    );
+    await assert.rejects(
+      thread.setModel("gpt-4").setJsonMode(true).runPrompt(),
+      new ModelCapabilityError("gpt-4", "json_object")
+    );
+    assert.equal(server.getRequests().length, 0);
+
+    await thread.setJsonMode(false).runPrompt({ seed: 42 });
+    assert.equal(server.getRequests("chat")[0].body.seed, 42);
+  });
+
+  it("checks max_tokens against the output limit of the model", async () => {
+    const thread = createFakeThread(server).appendUserMessage("Hello");
+
+    await assert.rejects(
+      thread.runPrompt({ max_tokens: 4097 }),
+      /Model gpt-3.5-turbo does not support max_tokens of 4097, at most 4096/
+    );
+    await assert.rejects(
+      thread.setMaxTokens(5000).runPromptStream(),
+      new ModelCapabilityError("gpt-3.5-turbo", "max_tokens of 5000, at most 4096")
+    );
+    assert.equal(server.getRequests().length, 0);
+
+    await thread.setMaxTokens(4096).runPrompt();
+    assert.equal(server.getRequests("chat")[0].body.max_tokens, 4096);
+  });
+
+  it("checks the modality of the model of other requests", async () => {
+    const thread = createFakeThread(server);
+
+    await assert.rejects(
+      thread.runEmbeddingPrompt("Hello", "gpt-4o"),
+      new ModelCapabilityError("gpt-4o", "embedding")
+    );
+    await assert.rejects(
+      thread.runSpeechPrompt("Hello", "whisper-1"),
+      new ModelCapabilityError("whisper-1", "speech")
+    );
+    assert.throws(
+      () => thread.setModel("text-embedding-3-small"),
+      new ModelCapabilityError("text-embedding-3-small", "chat")
+    );
+    assert.equal(server.getRequests().length, 0);
+  });
+
+  it("sends models unknown to the registry as they are", async () => {
+    const thread = createFakeThread(server)
+      .setModel("my-model")
+      .setJsonMode(true)
+      .setMaxTokens(100000)
+      .appendUserMessage("Hello");
+    // there is no price for the model either
+    const warn = mock.method(console, "warn", () => {});
+
+    try {
+      await thread.runPrompt();
+    } finally {
+      warn.mock.restore();
+    }
+
+    assert.equal(server.getRequests("chat")[0].body.model, "my-model");
+  });
+
+  it("uses the registry of the thread", async () => {
+    const registry = new ModelRegistry()
+      .register({ name: "my-model", modality: "chat", features: ["streaming"] })
+      .setDefault("embedding", "text-embedding-3-small");
+    const thread = createFakeThread(server).setModelRegistry(registry).setModel("my-model");
+
+    await assert.rejects(
+      thread.setJsonMode(true).appendUserMessage("Hello").runPrompt(),
+      new ModelCapabilityError("my-model", "json_object")
+    );
+    await thread.runEmbeddingPrompt("Hello");
+
+    assert.equal(server.getRequests("embeddings")[0].body.model, "text-embedding-3-small");
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { fetch as sdkFetch } from "openai/_shims/index";
+import { OpenAIWrapperClass } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import {
+  UnsupportedCapabilityError,
+  azureOpenAIProvider,
+  compatibleProvider,
+} from "../openAIwrapperProvider";
+import { Transport } from "../openAIwrapperTransport";
+
+describe("azure provider", () => {
+  const server = new FakeOpenAIServer();
+  // the URLs the SDK requested, before they are sent to the fake server
+  let urls: URL[] = [];
+
+  // sends the requests for the Azure resource to the fake server, without the deployment part of the path
+  const azureTransport: Transport = (url, init) => {
+    const parsed = new URL(String(url));
+    urls.push(parsed);
+
+    // the agent of the SDK is for https
+    return sdkFetch(
+      server.getBaseURL() + parsed.pathname.replace(/^\/openai\/deployments\/[^/]+/, ""),
+      { ...init, agent: undefined }
+    );
+  };
+
+  const createAzureThread = () =>
+    new OpenAIWrapperClass(
+      azureOpenAIProvider({
+        endpoint: "https://my-resource.openai.azure.com/",
+        apiKey: "azure-key",
+        apiVersion: "2024-02-01",
+        deployments: { "gpt-3.5-turbo": "chat-prod", "whisper-1": "speech to text" },
+      })
+    )
+      .setRetryPolicy({ initialDelayMs: 1, maxDelayMs: 5, jitter: 0 })
+      .setTransport(azureTransport);
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => {
+    server.reset();
+    urls = [];
+  });
+
+  it("sends requests to the deployment of the model", async () => {
+    const thread = createAzureThread();
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.appendUserMessage("Streamed?").runPromptStream();
+    await thread.runEmbeddingPrompt("Hello");
+    await thread.runSpeechPrompt("Hello");
+
+    assert.deepEqual(
+      urls.map((url) => url.pathname),
+      [
+        "/openai/deployments/chat-prod/chat/completions",
+        "/openai/deployments/chat-prod/chat/completions",
+        // models without a deployment use one of their own name
+        "/openai/deployments/text-embedding-ada-002/embeddings",
+        "/openai/deployments/tts-1/audio/speech",
+      ]
+    );
+    assert.ok(urls.every((url) => url.searchParams.get("api-version") === "2024-02-01"));
+    // the model is still sent in the body
+    assert.equal(server.getRequests("chat")[0].body.model, "gpt-3.5-turbo");
+  });
+
+  it("sends audio uploads to the deployment of the model", async () => {
+    const thread = createAzureThread();
+
+    await thread.runTranscriptionPrompt(Buffer.from("fake audio"));
+    await thread.runAudioTranslationPrompt(Buffer.from("fake audio"));
+
+    assert.deepEqual(
+      urls.map((url) => url.pathname),
+      [
+        "/openai/deployments/speech%20to%20text/audio/transcriptions",
+        "/openai/deployments/speech%20to%20text/audio/translations",
+      ]
+    );
+    assert.equal(server.getRequests("transcriptions")[0].body.file.size, 10);
+  });
+
+  it("authenticates with the api-key header", async () => {
+    const thread = createAzureThread();
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.runTranscriptionPrompt(Buffer.from("fake audio"));
+
+    for (const request of server.getRequests()) {
+      assert.equal(request.headers["api-key"], "azure-key");
+      assert.equal(request.headers.authorization, undefined);
+    }
+  });
+
+  it("refuses moderation without sending a request", async () => {
+    const thread = createAzureThread();
+
+    assert.equal(thread.supports("moderation"), false);
+    await assert.rejects(thread.runModerationPrompt("Hello"), (error) => {
+      assert.ok(error instanceof UnsupportedCapabilityError);
+      assert.equal(error.provider, "azure");
+      assert.equal(error.capability, "moderation");
+      return true;
+    });
+    assert.deepEqual(urls, []);
+  });
+});
+
+describe("compatible provider", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("only assumes chat unless told otherwise", async () => {
+    const thread = new OpenAIWrapperClass(
+      compatibleProvider({ baseURL: server.getBaseURL(), name: "llama.cpp" })
+    ).addTool({ name: "get_time", parameters: { type: "object", properties: {} } });
+
+    await assert.rejects(
+      thread.appendUserMessage("Time?").runPrompt(),
+      new UnsupportedCapabilityError("llama.cpp", "tools")
+    );
+    await assert.rejects(thread.runEmbeddingPrompt("Hello"), /does not support embeddings/);
+    assert.equal(server.getRequests().length, 0);
+
+    thread.setProvider(
+      compatibleProvider({ baseURL: server.getBaseURL(), capabilities: ["chat", "tools"] })
+    );
+    await thread.runPrompt();
+    assert.equal(server.getRequests("chat")[0].body.tools?.length, 1);
+    assert.equal(server.getRequests("chat")[0].headers.authorization, "Bearer none");
+  });
+});
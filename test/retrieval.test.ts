@@ -0,0 +1,88 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { vectorStoreRetriever } from "../openAIwrapperRetriever";
+import { InMemoryVectorStore } from "../openAIwrapperVectorStore";
+import { createFakeThread } from "./fakeThread";
+
+const passages = [
+  "The Eiffel Tower is 330 metres tall.",
+  "The Colosseum was completed in 80 AD.",
+  "The Brandenburg Gate was built in the 18th century.",
+];
+
+describe("retrieval", () => {
+  const server = new FakeOpenAIServer();
+  const store = new InMemoryVectorStore();
+
+  before(async () => {
+    await server.start();
+
+    // the fake embeddings are derived from the text, so a question equal to a passage finds it first
+    const thread = createFakeThread(server);
+    await thread.runEmbeddingPrompt(passages);
+    const embeddings = thread.getLastResponseAsEmbeddingsResult();
+    store.upsert(
+      ...passages.map((text, index) => ({
+        id: `passage-${index}`,
+        text,
+        embedding: embeddings[index],
+        metadata: {},
+      }))
+    );
+  });
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("injects the passages and returns them as sources", async () => {
+    const thread = createFakeThread(server).setRetriever(vectorStoreRetriever(store), { topK: 1 });
+
+    await thread.appendUserMessage(passages[1]).runPrompt();
+
+    const [request] = server.getRequests("chat");
+    const context = request.body.messages.find((message) => message.role === "system");
+    assert.match(String(context?.content), /\[1\] The Colosseum was completed in 80 AD\./);
+
+    const sources = thread.getLastResponseSources();
+    assert.deepEqual(
+      sources.map(({ id, citation }) => ({ id, citation })),
+      [{ id: "passage-1", citation: 1 }]
+    );
+    // the context block is not part of the conversation
+    assert.deepEqual(
+      thread.getMessages().map((message) => message.role),
+      ["user", "assistant"]
+    );
+  });
+
+  it("embeds a user message once across tool rounds", async () => {
+    const thread = createFakeThread(server)
+      .setRetriever(vectorStoreRetriever(store), { topK: 1 })
+      .addToolWithFunction(
+        { name: "get_height", parameters: { type: "object", properties: {} } },
+        () => 330
+      );
+    server.reply(
+      "chat",
+      { toolCalls: [{ name: "get_height", arguments: {} }] },
+      { content: "It is 330 metres tall [1]." }
+    );
+
+    await thread.appendUserMessage(passages[0]).runUntilComplete();
+
+    assert.equal(server.getRequests("embeddings").length, 1);
+    for (const request of server.getRequests("chat"))
+      assert.ok(request.body.messages.some((message) => message.role === "system"));
+    assert.equal(thread.getLastResponseSources()[0].id, "passage-0");
+  });
+
+  it("stops retrieving when the retriever is removed", async () => {
+    const thread = createFakeThread(server).setRetriever(vectorStoreRetriever(store));
+    thread.setRetriever(undefined);
+
+    await thread.appendUserMessage(passages[2]).runPrompt();
+
+    assert.equal(server.getRequests("embeddings").length, 0);
+    assert.deepEqual(thread.getLastResponseSources(), []);
+  });
+});
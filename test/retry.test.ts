@@ -0,0 +1,71 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import OpenAI from "openai";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { RetryInfo } from "../openAIwrapperRetry";
+import { createFakeThread } from "./fakeThread";
+
+describe("retry", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("retries rate limits and server errors", async () => {
+    const retries: RetryInfo[] = [];
+    const thread = createFakeThread(server).setRetryPolicy({
+      initialDelayMs: 1,
+      jitter: 0,
+      onRetry: (info) => retries.push(info),
+    });
+    server.reply(
+      "chat",
+      { status: 429, headers: { "retry-after": "0" } },
+      { status: 500 },
+      { content: "Finally" }
+    );
+
+    await thread.appendUserMessage("Hello").runPrompt();
+
+    assert.equal(thread.getLastResponseAsMessageResult().content, "Finally");
+    assert.equal(server.getRequests("chat").length, 3);
+    assert.deepEqual(
+      retries.map((retry) => retry.attempt),
+      [1, 2]
+    );
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const thread = createFakeThread(server).setRetryPolicy({ maxAttempts: 2, initialDelayMs: 1 });
+    server.reply("chat", { status: 503 }, { status: 503 }, { content: "Too late" });
+
+    await assert.rejects(thread.appendUserMessage("Hello").runPrompt(), OpenAI.APIError);
+    assert.equal(server.getRequests("chat").length, 2);
+  });
+
+  it("does not retry client errors", async () => {
+    const thread = createFakeThread(server);
+    server.reply("chat", { status: 400, message: "Bad request" });
+
+    await assert.rejects(thread.appendUserMessage("Hello").runPrompt(), /Bad request/);
+    assert.equal(server.getRequests("chat").length, 1);
+  });
+
+  it("can be disabled", async () => {
+    const thread = createFakeThread(server).setRetryPolicy(false);
+    server.reply("chat", { status: 500 });
+
+    await assert.rejects(thread.appendUserMessage("Hello").runPrompt(), OpenAI.APIError);
+    assert.equal(server.getRequests("chat").length, 1);
+  });
+
+  it("retries a failed stream before anything was emitted", async () => {
+    const thread = createFakeThread(server);
+    server.reply("chat", { status: 502 }, { content: "Streamed answer" });
+
+    await thread.appendUserMessage("Hello").runPromptStream();
+
+    assert.equal(thread.getLastResponseAsMessageResult().content, "Streamed answer");
+  });
+});
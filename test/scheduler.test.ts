@@ -0,0 +1,195 @@
+import * as assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { FakeClock, RateLimitScheduler } from "../openAIwrapperScheduler";
+import { createFakeThread } from "./fakeThread";
+
+// lets the promise callbacks of granted requests run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Records the label once the request is let through.
+ */
+function track(granted: string[], request: Promise<void>, label: string) {
+  request.then(() => granted.push(label));
+}
+
+describe("RateLimitScheduler", () => {
+  it("holds requests beyond the requests per minute until the bucket refills", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { requestsPerMinute: 2 }, clock });
+    const granted: string[] = [];
+
+    for (const label of ["a", "b", "c"]) track(granted, scheduler.acquire("gpt-4", 0), label);
+    await flush();
+    assert.deepEqual(granted, ["a", "b"]);
+
+    // one request per 30 seconds flows back in
+    clock.advance(29999);
+    await flush();
+    assert.deepEqual(granted, ["a", "b"]);
+
+    clock.advance(1);
+    await flush();
+    assert.deepEqual(granted, ["a", "b", "c"]);
+  });
+
+  it("holds requests beyond the tokens per minute until enough tokens refilled", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({
+      limits: { "gpt-4": { tokensPerMinute: 1000 } },
+      clock,
+    });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 600), "first");
+    track(granted, scheduler.acquire("gpt-4", 600), "second");
+    await flush();
+    assert.deepEqual(granted, ["first"]);
+
+    // 200 tokens are missing, at 1000 tokens per minute
+    clock.advance(11999);
+    await flush();
+    assert.deepEqual(granted, ["first"]);
+
+    clock.advance(1);
+    await flush();
+    assert.deepEqual(granted, ["first", "second"]);
+  });
+
+  it("lets a request bigger than the bucket through once the bucket is full", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { tokensPerMinute: 1000 }, clock });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 1000), "full");
+    track(granted, scheduler.acquire("gpt-4", 5000), "huge");
+    await flush();
+    assert.deepEqual(granted, ["full"]);
+
+    clock.advance(60000);
+    await flush();
+    assert.deepEqual(granted, ["full", "huge"]);
+  });
+
+  it("lets waiting requests through by priority, then in order", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { requestsPerMinute: 1 }, clock });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 0), "first");
+    track(granted, scheduler.acquire("gpt-4", 0, 0), "low");
+    track(granted, scheduler.acquire("gpt-4", 0, 5), "high");
+    track(granted, scheduler.acquire("gpt-4", 0, 5), "high again");
+    await flush();
+
+    for (let minute = 0; minute < 3; minute++) {
+      clock.advance(60000);
+      await flush();
+    }
+    assert.deepEqual(granted, ["first", "high", "high again", "low"]);
+  });
+
+  it("does not let a small request overtake a waiting one of the same model", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { tokensPerMinute: 1000 }, clock });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 900), "first");
+    track(granted, scheduler.acquire("gpt-4", 500), "big");
+    // would fit in the 100 tokens left, but has to wait behind the big one
+    track(granted, scheduler.acquire("gpt-4", 50), "small");
+    await flush();
+    assert.deepEqual(granted, ["first"]);
+
+    clock.advance(24000);
+    await flush();
+    assert.deepEqual(granted, ["first", "big"]);
+
+    clock.advance(3000);
+    await flush();
+    assert.deepEqual(granted, ["first", "big", "small"]);
+  });
+
+  it("keeps the queues of different models apart", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({
+      limits: { "gpt-4": { requestsPerMinute: 1 } },
+      clock,
+    });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 0), "gpt-4");
+    track(granted, scheduler.acquire("gpt-4", 0), "gpt-4 waiting");
+    track(granted, scheduler.acquire("gpt-3.5-turbo", 0), "gpt-3.5-turbo");
+    await flush();
+
+    assert.deepEqual(granted, ["gpt-4", "gpt-3.5-turbo"]);
+  });
+
+  it("reports the queue and the wait times", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { requestsPerMinute: 1 }, clock });
+
+    scheduler.acquire("gpt-4", 0);
+    scheduler.acquire("gpt-4", 0);
+    scheduler.acquire("gpt-3.5-turbo", 0);
+    scheduler.acquire("gpt-3.5-turbo", 0);
+    clock.advance(20000);
+
+    assert.deepEqual(scheduler.getStats(), {
+      queueDepth: 2,
+      queueDepthByModel: { "gpt-4": 1, "gpt-3.5-turbo": 1 },
+      granted: 2,
+      averageWaitMs: 0,
+      maxWaitMs: 0,
+      oldestWaitMs: 20000,
+    });
+
+    clock.advance(40000);
+    assert.deepEqual(scheduler.getStats(), {
+      queueDepth: 0,
+      queueDepthByModel: {},
+      granted: 4,
+      averageWaitMs: 30000,
+      maxWaitMs: 60000,
+      oldestWaitMs: 0,
+    });
+  });
+
+  it("applies new limits to the waiting requests", async () => {
+    const clock = new FakeClock();
+    const scheduler = new RateLimitScheduler({ defaultLimits: { requestsPerMinute: 1 }, clock });
+    const granted: string[] = [];
+
+    track(granted, scheduler.acquire("gpt-4", 0), "first");
+    track(granted, scheduler.acquire("gpt-4", 0), "second");
+    await flush();
+    assert.deepEqual(granted, ["first"]);
+
+    scheduler.setLimits("gpt-4", { requestsPerMinute: 100 });
+    await flush();
+    assert.deepEqual(granted, ["first", "second"]);
+  });
+
+  describe("with a wrapper", () => {
+    const server = new FakeOpenAIServer();
+
+    before(() => server.start());
+    after(() => server.stop());
+
+    it("asks for the prompt tokens plus the max_tokens of the request", async () => {
+      const scheduler = new RateLimitScheduler();
+      const acquire = mock.method(scheduler, "acquire");
+      const thread = createFakeThread(server)
+        .setMaxTokens(100)
+        .setRateLimitScheduler(scheduler, 3)
+        .appendUserMessage("Hello");
+      const promptTokens = thread.estimatePromptTokens();
+
+      await thread.runPrompt({ max_tokens: 300 });
+
+      assert.deepEqual(acquire.mock.calls[0].arguments, ["gpt-3.5-turbo", promptTokens + 300, 3]);
+    });
+  });
+});
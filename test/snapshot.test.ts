@@ -0,0 +1,122 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { SnapshotNotFoundError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { SnapshotVersionError } from "../openAIwrapperSnapshot";
+import { InMemorySnapshotStorage } from "../openAIwrapperStorage";
+import { createFakeThread, getActiveCounts } from "./fakeThread";
+
+const clockTool = { name: "get_time", parameters: { type: "object", properties: {} } };
+
+describe("snapshots", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("round-trips a conversation through a storage", async () => {
+    const storage = new InMemorySnapshotStorage();
+    const thread = createFakeThread(server)
+      .setModel("gpt-4")
+      .setTemperature(0.2)
+      .addToolWithFunction(clockTool, () => "12:00");
+    server.reply("chat", { content: "Hi!" }, { toolCalls: [{ name: "get_time", arguments: {} }] });
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    await thread.appendUserMessage("What time is it?").runPrompt();
+    await thread.saveSnapshot(storage, "session");
+
+    const snapshot = await storage.load("session");
+    assert.doesNotMatch(JSON.stringify(snapshot), /"test"/, "the API key is not stored");
+
+    // the tool function is rebound by name for the tool calls after the restore
+    const calls: string[] = [];
+    const restored = await createFakeThread(server).loadSnapshot(storage, "session", {
+      get_time: () => {
+        calls.push("get_time");
+        return "12:00";
+      },
+    });
+    const { savedAt, ...restoredState } = restored.toSnapshot();
+    const { savedAt: originalSavedAt, ...originalState } = thread.toSnapshot();
+    assert.deepEqual(restoredState, originalState);
+    assert.equal(restored.getCost(), thread.getCost());
+    assert.equal(restored.needsToolRun(), true);
+
+    server.reply(
+      "chat",
+      { toolCalls: [{ name: "get_time", arguments: {} }] },
+      { content: "It is noon." }
+    );
+    await restored.runUntilComplete();
+    assert.deepEqual(calls, ["get_time"]);
+    assert.equal(restored.getLastResponseAsMessageResult().content, "It is noon.");
+  });
+
+  it("keeps the current prices unless asked to restore the saved ones", async () => {
+    // USD per 1 million tokens, so one dollar or two per prompt token
+    const thread = createFakeThread(server).setPriceTable({
+      "gpt-3.5-turbo": { input: 1_000_000, output: 0 },
+    });
+    await thread.appendUserMessage("Hello").runPrompt();
+    const snapshot = thread.toSnapshot();
+    const [saved] = snapshot.cost.entries;
+    const livePrices = { "gpt-3.5-turbo": { input: 2_000_000, output: 0 } };
+
+    const restored = createFakeThread(server).setPriceTable(livePrices).restoreSnapshot(snapshot);
+    await restored.runPrompt();
+    const [old, added] = restored.getCostLedger().getEntries();
+    assert.deepEqual(old, saved);
+    assert.equal(added.cost, added.prompt_tokens! * 2);
+    assert.deepEqual(
+      restored.toSnapshot().cost.prices["gpt-3.5-turbo"],
+      livePrices["gpt-3.5-turbo"]
+    );
+
+    const withSavedPrices = createFakeThread(server)
+      .setPriceTable(livePrices)
+      .restoreSnapshot(snapshot, {}, { restorePrices: true });
+    await withSavedPrices.runPrompt();
+    const [, priced] = withSavedPrices.getCostLedger().getEntries();
+    assert.equal(priced.cost, priced.prompt_tokens!);
+  });
+
+  it("migrates the JSON of older versions", () => {
+    const legacy = {
+      model: "gpt-4",
+      messages: [{ role: "user", content: "Hello" }],
+      threadCount: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8, tool_calls: 0 },
+    };
+
+    const thread = createFakeThread(server);
+    assert.deepEqual(thread.fromJSON(JSON.stringify(legacy)), { success: true });
+
+    assert.equal(thread.toSnapshot().model, "gpt-4");
+    assert.deepEqual(thread.getMessages(), legacy.messages);
+    assert.deepEqual(getActiveCounts(thread), legacy.threadCount);
+    assert.equal(thread.getActiveBranchId(), "main");
+  });
+
+  it("refuses snapshots of a newer version", () => {
+    const thread = createFakeThread(server);
+
+    assert.throws(() => thread.restoreSnapshot({ version: 99 }), SnapshotVersionError);
+  });
+
+  it("refuses snapshots with an invalid version", () => {
+    const thread = createFakeThread(server);
+
+    assert.throws(() => thread.restoreSnapshot(null), /Invalid snapshot/);
+    assert.throws(() => thread.restoreSnapshot({ version: "2" }), /Invalid snapshot version 2/);
+  });
+
+  it("throws when there is no snapshot with the id", async () => {
+    const thread = createFakeThread(server);
+
+    await assert.rejects(
+      thread.loadSnapshot(new InMemorySnapshotStorage(), "missing"),
+      SnapshotNotFoundError
+    );
+  });
+});
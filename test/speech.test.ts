@@ -0,0 +1,143 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Writable } from "node:stream";
+import { fetch as sdkFetch } from "openai/_shims/index";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { SpeechProgress, splitSpeechText } from "../openAIwrapperSpeech";
+import { Transport } from "../openAIwrapperTransport";
+import { createFakeThread } from "./fakeThread";
+
+const text = "First sentence. Second sentence. Third sentence.";
+
+// holds back the response to a speech request by the delay given for its input
+function delayingTransport(delays: Record<string, number>): Transport {
+  return async (url, init) => {
+    const response = await sdkFetch(url, init);
+    const { input } = JSON.parse(String(init?.body));
+    await new Promise((resolve) => setTimeout(resolve, delays[input] ?? 0));
+
+    return response;
+  };
+}
+
+describe("splitting speech text", () => {
+  it("packs sentences into chunks up to the maximum length", () => {
+    assert.deepEqual(splitSpeechText("One. Two! Three?", 9), ["One. Two!", "Three?"]);
+    assert.deepEqual(splitSpeechText('He said "Hi." Then left.', 14), [
+      'He said "Hi."',
+      "Then left.",
+    ]);
+  });
+
+  it("keeps paragraph breaks and collapses other white space", () => {
+    assert.deepEqual(splitSpeechText("  One.\n\n\n  Two   and\nthree.  \n \n"), [
+      "One.\n\nTwo and three.",
+    ]);
+    assert.deepEqual(splitSpeechText(" \n\n "), []);
+  });
+
+  it("splits long sentences between words and cuts long words", () => {
+    assert.deepEqual(splitSpeechText("aaa bbb ccc.", 7), ["aaa bbb", "ccc."]);
+    assert.deepEqual(splitSpeechText("abcdefghij", 4), ["abcd", "efgh", "ij"]);
+  });
+});
+
+describe("long speech", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("joins the audio in order when the chunks finish out of order", async () => {
+    const progress: SpeechProgress[] = [];
+    const thread = createFakeThread(server).setTransport(
+      delayingTransport({ "First sentence.": 60, "Second sentence.": 30 })
+    );
+
+    await thread.runLongSpeechPrompt(text, {
+      maxCharacters: 16,
+      onProgress: (update) => progress.push(update),
+    });
+
+    const result = thread.getLastResponseAsLongSpeechResult();
+    const expected =
+      "fake audio: First sentence.fake audio: Second sentence.fake audio: Third sentence.";
+    assert.equal(result.audio?.toString(), expected);
+    assert.deepEqual(
+      { chunks: result.chunks, characters: result.characters, bytes: result.bytes },
+      { chunks: 3, characters: 46, bytes: expected.length }
+    );
+    // all requests were sent before the first one was answered
+    assert.deepEqual(
+      server.getRequests("speech").map((request) => request.body.input),
+      ["First sentence.", "Second sentence.", "Third sentence."]
+    );
+    assert.deepEqual(progress, [
+      { chunk: 0, totalChunks: 3, characters: 15, totalCharacters: 46, bytes: 27 },
+      { chunk: 1, totalChunks: 3, characters: 31, totalCharacters: 46, bytes: 55 },
+      { chunk: 2, totalChunks: 3, characters: 46, totalCharacters: 46, bytes: 82 },
+    ]);
+  });
+
+  it("writes to a stream in order", async () => {
+    const written: string[] = [];
+    const output = new Writable({
+      write: (chunk: Buffer, encoding, callback) => {
+        written.push(chunk.toString());
+        callback();
+      },
+    });
+    const thread = createFakeThread(server).setTransport(
+      delayingTransport({ "First sentence.": 30 })
+    );
+
+    await thread.runLongSpeechPrompt(text, { maxCharacters: 16, concurrency: 2, output });
+
+    assert.deepEqual(written, [
+      "fake audio: First sentence.",
+      "fake audio: Second sentence.",
+      "fake audio: Third sentence.",
+    ]);
+    assert.equal(thread.getLastResponseAsLongSpeechResult().audio, undefined);
+  });
+
+  it("stops when a write to the output fails", async () => {
+    let writes = 0;
+    const output = new Writable({
+      write: (chunk, encoding, callback) =>
+        callback(++writes === 2 ? new Error("Disk full") : null),
+    });
+    const thread = createFakeThread(server).setTransport(
+      delayingTransport({ "Third sentence.": 30 })
+    );
+
+    await assert.rejects(
+      thread.runLongSpeechPrompt(text, { maxCharacters: 16, concurrency: 2, output }),
+      /Disk full/
+    );
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assert.equal(writes, 2);
+    assert.equal(server.getRequests("speech").length, 3);
+    // the third chunk was being synthesized when the write failed
+    assert.equal(thread.getCostLedger().getEntries().length, 2);
+  });
+
+  it("does not count the cost of chunks cancelled by a failed one", async () => {
+    server.reply("speech", { status: 400, message: "Invalid input" });
+    const thread = createFakeThread(server).setTransport(
+      delayingTransport({ "Second sentence.": 30 })
+    );
+
+    await assert.rejects(
+      thread.runLongSpeechPrompt(text, { maxCharacters: 16, concurrency: 2 }),
+      /Invalid input/
+    );
+    // the answer to the second chunk arrives after the first one failed
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assert.equal(server.getRequests("speech").length, 2);
+    assert.deepEqual(thread.getCostLedger().getEntries(), []);
+  });
+});
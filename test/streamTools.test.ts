@@ -0,0 +1,35 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+const weatherTool = {
+  name: "get_current_weather",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+describe("streamed tool calls", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("reassembles streamed tool calls", async () => {
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, () => "sunny");
+    server.reply("chat", {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Rome" } }],
+    });
+
+    await thread.appendUserMessage("Weather in Rome?").runPromptStream();
+
+    const messages = thread.getMessages();
+    assert.equal(messages.length, 3);
+    assert.equal(messages[2].role, "tool");
+    assert.equal(thread.needsToolRun(), true);
+  });
+});
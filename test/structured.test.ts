@@ -0,0 +1,135 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { StructuredOutputError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { InferJsonSchema } from "../openAIwrapperSchema";
+import { createFakeThread } from "./fakeThread";
+
+const personSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    age: { type: "integer", minimum: 0 },
+    role: { enum: ["admin", "user"] },
+    tags: { type: "array", items: { type: "string" } },
+    manager: { anyOf: [{ type: "string" }, { type: "null" }] },
+  },
+  required: ["name", "role"],
+} as const;
+
+// the type is checked by tsc, which fails on an unused @ts-expect-error
+const person: InferJsonSchema<typeof personSchema> = {
+  name: "Bob",
+  role: "admin",
+  tags: ["sales"],
+  manager: null,
+};
+// @ts-expect-error - role is required
+const withoutRole: InferJsonSchema<typeof personSchema> = { name: "Bob" };
+// @ts-expect-error - age is a number
+const withTextAge: InferJsonSchema<typeof personSchema> = { name: "Bob", role: "user", age: "42" };
+
+describe("structured prompts", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("resolves to the validated answer, typed after the schema", async () => {
+    server.reply("chat", { content: JSON.stringify(person) });
+    const thread = createFakeThread(server).appendUserMessage("Extract the person");
+
+    const result = await thread.runStructuredPrompt({
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "integer" } },
+      required: ["name"],
+    });
+    const name: string = result.name;
+    // @ts-expect-error - age may be missing
+    const age: number = result.age;
+
+    assert.equal(name, "Bob");
+    assert.equal(age, undefined);
+    assert.deepEqual(thread.getLastResponseAsStructuredResult(), person);
+    assert.deepEqual(server.getRequests("chat")[0].body.response_format, { type: "json_object" });
+  });
+
+  it("feeds the errors back and removes the repair turns once the answer is valid", async () => {
+    server.reply(
+      "chat",
+      { content: "Bob, an admin" },
+      { content: '{"name":"Bob","role":"boss","age":-1}' },
+      { content: '{"name":"Bob","role":"admin"}' }
+    );
+    const thread = createFakeThread(server).appendUserMessage("Extract the person");
+
+    const result = await thread.runStructuredPrompt(personSchema);
+
+    assert.deepEqual(result, { name: "Bob", role: "admin" });
+    const requests = server.getRequests("chat");
+    assert.equal(requests.length, 3);
+    assert.match(String(requests[1].body.messages.at(-2)?.content), /not valid JSON/);
+    assert.match(
+      String(requests[2].body.messages.at(-2)?.content),
+      /\$\.role should be one of \["admin","user"\], got "boss"\n\$\.age should be >= 0/
+    );
+    assert.deepEqual(thread.getMessages(), [
+      { role: "user", content: "Extract the person" },
+      { role: "assistant", content: '{"name":"Bob","role":"admin"}' },
+    ]);
+    // the repair attempts were still paid for
+    assert.equal(thread.getCostLedger().getEntries().length, 3);
+  });
+
+  it("keeps the tool turns of the attempts", async () => {
+    server.reply(
+      "chat",
+      { toolCalls: [{ name: "get_user", arguments: {} }] },
+      { content: '{"name":"Bob"}' },
+      { content: '{"name":"Bob","role":"user"}' }
+    );
+    const thread = createFakeThread(server)
+      .addToolWithFunction(
+        { name: "get_user", parameters: { type: "object", properties: {} } },
+        () => ({
+          name: "Bob",
+        })
+      )
+      .appendUserMessage("Who am I?");
+
+    await thread.runStructuredPrompt(personSchema);
+
+    assert.deepEqual(
+      thread.getMessages().map((message) => message.role),
+      ["user", "assistant", "tool", "assistant"]
+    );
+  });
+
+  it("throws and keeps the repair turns when the attempts run out", async () => {
+    server.reply("chat", { content: "{}" }, { content: '{"name":1}' });
+    const thread = createFakeThread(server).appendUserMessage("Extract the person");
+
+    await assert.rejects(
+      thread.runStructuredPrompt(personSchema, { maxRepairAttempts: 1 }),
+      (error) => {
+        assert.ok(error instanceof StructuredOutputError);
+        assert.equal(error.content, '{"name":1}');
+        assert.deepEqual(error.errors, [
+          "$.role is required",
+          "$.name should be of type string, got number",
+        ]);
+        return true;
+      }
+    );
+
+    assert.deepEqual(
+      thread.getMessages().map((message) => message.role),
+      ["user", "assistant", "user", "assistant"]
+    );
+    assert.equal(thread.getLastResponseAsStructuredResult(), undefined);
+    // JSON mode is only used for the structured prompt
+    await thread.appendUserMessage("Thanks").runPrompt();
+    assert.deepEqual(server.getRequests("chat")[2].body.response_format, { type: "text" });
+  });
+});
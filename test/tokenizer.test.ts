@@ -0,0 +1,182 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import { ChatCompletionTool } from "openai/resources";
+import { ContextWindowExceededError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { ModelRegistry } from "../openAIwrapperModels";
+import {
+  countImageTokens,
+  countMessageTokens,
+  countTokens,
+  getEncodingForModel,
+} from "../openAIwrapperTokenizer";
+import { createFakeThread } from "./fakeThread";
+
+// the header of a PNG image, which is all the tokenizer reads to get its size
+function pngDataUrl(width: number, height: number): string {
+  const header = Buffer.alloc(24);
+  header.writeUInt32BE(0x89504e47, 0);
+  header.writeUInt32BE(0x0d0a1a0a, 4);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+
+  return `data:image/png;base64,${header.toString("base64")}`;
+}
+
+describe("tokenizer", () => {
+  it("counts the tokens of a text with the encoding of the model", () => {
+    assert.equal(countTokens("Hello world", "gpt-3.5-turbo"), 2);
+    assert.equal(getEncodingForModel("gpt-4o-mini"), getEncodingForModel("gpt-4o"));
+    assert.equal(getEncodingForModel("my-own-model"), getEncodingForModel("gpt-4"));
+  });
+
+  it("counts the overhead of the chat format per message", () => {
+    // 3 for the reply priming, then 3 per message plus role and content
+    assert.equal(
+      countMessageTokens(
+        [
+          { role: "system", content: "You are helpful." },
+          { role: "user", content: "Hello world" },
+        ],
+        "gpt-3.5-turbo"
+      ),
+      3 + (3 + 1 + 4) + (3 + 1 + 2)
+    );
+    assert.equal(
+      countMessageTokens(
+        [{ role: "function", name: "get_time", content: "12:00" }],
+        "gpt-3.5-turbo"
+      ),
+      3 +
+        3 +
+        ["function", "12:00", "get_time"]
+          .map((text) => countTokens(text, "gpt-3.5-turbo"))
+          .reduce((sum, tokens) => sum + tokens) +
+        1
+    );
+  });
+
+  it("counts tool calls and tool definitions", () => {
+    const model = "gpt-3.5-turbo";
+    const tools: ChatCompletionTool[] = [
+      {
+        type: "function",
+        function: {
+          name: "get_current_weather",
+          parameters: { type: "object", properties: { location: { type: "string" } } },
+        },
+      },
+    ];
+    const withoutCalls = countMessageTokens([{ role: "assistant", content: null }], model);
+    const withCalls = countMessageTokens(
+      [
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "get_current_weather", arguments: '{"location":"Paris"}' },
+            },
+          ],
+        },
+      ],
+      model
+    );
+
+    assert.equal(
+      withCalls - withoutCalls,
+      countTokens("get_current_weather", model) + countTokens('{"location":"Paris"}', model)
+    );
+    assert.equal(
+      countMessageTokens([{ role: "assistant", content: null }], model, tools) - withoutCalls,
+      12 + countTokens(JSON.stringify([tools[0].function]), model)
+    );
+  });
+
+  it("counts image parts after their size and detail", () => {
+    const countImage = (url: string, detail?: "low" | "high") =>
+      countMessageTokens(
+        [{ role: "user", content: [{ type: "image_url", image_url: { url, detail } }] }],
+        "gpt-4o"
+      ) - countMessageTokens([{ role: "user", content: [] }], "gpt-4o");
+
+    assert.equal(countImageTokens("low", 4096, 4096), 85);
+    assert.equal(countImageTokens("high", 1024, 1024), 765);
+    assert.equal(countImageTokens("high", 2048, 4096), 1105);
+    assert.equal(countImage(pngDataUrl(2048, 4096), "high"), 1105);
+    assert.equal(countImage(pngDataUrl(2048, 4096), "low"), 85);
+    // the size of linked images is unknown, they count as 1024x1024
+    assert.equal(countImage("https://example.com/cat.png"), 765);
+  });
+});
+
+describe("preflight check", () => {
+  const server = new FakeOpenAIServer();
+
+  // a small context window keeps the prompts short
+  const registry = new ModelRegistry([
+    {
+      name: "gpt-3.5-turbo",
+      modality: "chat",
+      contextWindow: 20,
+      features: ["tools", "json_object", "streaming"],
+    },
+  ]);
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("throws without sending a request that does not fit the context window", async () => {
+    const thread = createFakeThread(server)
+      .setModelRegistry(registry)
+      .setMaxTokens(12)
+      .setPreflightCheck("error");
+
+    for (const run of [() => thread.runPrompt(), () => thread.runPromptStream()]) {
+      thread.setMessages([{ role: "user", content: "Hello world" }]);
+      await assert.rejects(run(), (error) => {
+        assert.ok(error instanceof ContextWindowExceededError);
+        assert.equal(error.promptTokens, 3 + 3 + 1 + 2);
+        assert.equal(error.maxTokens, 12);
+        assert.equal(error.contextWindow, 20);
+        return true;
+      });
+    }
+    assert.equal(server.getRequests("chat").length, 0);
+  });
+
+  it("warns and still sends the request", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    try {
+      const thread = createFakeThread(server)
+        .setModelRegistry(registry)
+        .setMaxTokens(12)
+        .setPreflightCheck("warn");
+
+      await thread.setMessages([{ role: "user", content: "Hello world" }]).runPrompt();
+      await thread.appendUserMessage("Again").runPromptStream();
+
+      assert.equal(warn.mock.callCount(), 2);
+      assert.match(String(warn.mock.calls[0].arguments[0]), /context window is 20 tokens/);
+      assert.equal(server.getRequests("chat").length, 2);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it("lets requests through that fit", async () => {
+    const thread = createFakeThread(server)
+      .setModelRegistry(registry)
+      .setMaxTokens(20 - 9)
+      .setPreflightCheck("error");
+
+    await thread.setMessages([{ role: "user", content: "Hello world" }]).runPrompt();
+
+    assert.equal(server.getRequests("chat").length, 1);
+  });
+});
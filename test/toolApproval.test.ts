@@ -0,0 +1,77 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ToolCallError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+const weatherTool = {
+  name: "get_current_weather",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+describe("tool approval", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("sends a rejection to the model", async () => {
+    let called = false;
+    const thread = createFakeThread(server)
+      .addToolWithFunction(weatherTool, () => (called = true))
+      .setToolApproval(() => ({ approved: false, reason: "Not now" }));
+    server.reply("chat", {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Bern" } }],
+    });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.equal(called, false);
+    assert.match(String(thread.getMessages()[2].content), /rejected.*Not now/);
+  });
+
+  it("waits for a manual decision", async () => {
+    const thread = createFakeThread(server)
+      .addToolWithFunction(weatherTool, () => "sunny")
+      .setToolApproval("manual");
+    server.reply("chat", {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Bern" } }],
+    });
+
+    const running = thread.appendUserMessage("Weather?").runPrompt();
+    while (thread.getPendingApprovals().length === 0)
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    thread.resolveToolApproval(thread.getPendingApprovals()[0].toolCallId, false);
+    await running;
+
+    assert.match(String(thread.getMessages()[2].content), /rejected/);
+    assert.deepEqual(thread.getPendingApprovals(), []);
+  });
+
+  it("handles a failing approver through the tool error policy", async () => {
+    const failingApprover = () => {
+      throw new Error("Approver down");
+    };
+    const toolCall = {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Bern" } }],
+    };
+    server.reply("chat", toolCall, toolCall);
+
+    const reporting = createFakeThread(server)
+      .addToolWithFunction(weatherTool, () => "sunny")
+      .setToolApproval(failingApprover);
+    await reporting.appendUserMessage("Weather?").runPrompt();
+    assert.match(String(reporting.getMessages()[2].content), /approval .* failed: Approver down/);
+
+    const throwing = createFakeThread(server)
+      .addToolWithFunction(weatherTool, () => "sunny")
+      .setToolApproval(failingApprover)
+      .setToolErrorPolicy("throw");
+    await assert.rejects(throwing.appendUserMessage("Weather?").runPrompt(), ToolCallError);
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { boolean, defineTool, string } from "../openAIwrapperTool";
+import { createFakeThread } from "./fakeThread";
+
+const weatherTool = {
+  name: "get_current_weather",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" }, unit: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+describe("tool arguments", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("reports invalid arguments to the model without calling the tool", async () => {
+    let called = false;
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, () => (called = true));
+    server.reply("chat", { toolCalls: [{ name: "get_current_weather", arguments: {} }] });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.equal(called, false);
+    assert.match(String(thread.getMessages()[2].content), /Invalid arguments/);
+  });
+
+  it("passes the arguments positionally by default", async () => {
+    const calls: unknown[][] = [];
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, (...args: unknown[]) =>
+      calls.push(args)
+    );
+    server.reply("chat", {
+      toolCalls: [
+        { name: "get_current_weather", arguments: { unit: "celsius", location: "Paris" } },
+      ],
+    });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.deepEqual(calls, [["Paris", "celsius"]]);
+  });
+
+  it("passes the argument object when asked to", async () => {
+    const calls: unknown[][] = [];
+    const thread = createFakeThread(server).addToolWithFunction(
+      weatherTool,
+      (...args: unknown[]) => calls.push(args),
+      "object"
+    );
+    server.reply("chat", {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Paris" } }],
+    });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.deepEqual(calls, [[{ location: "Paris" }]]);
+  });
+
+  it("passes the arguments positionally to the functions of a tool function map", async () => {
+    const calls: unknown[][] = [];
+    const thread = createFakeThread(server)
+      .addTool(weatherTool)
+      .setToolFunctionMap({ get_current_weather: (...args: unknown[]) => calls.push(args) });
+    server.reply("chat", {
+      toolCalls: [
+        { name: "get_current_weather", arguments: { location: "Paris", unit: "celsius" } },
+      ],
+    });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.deepEqual(calls, [["Paris", "celsius"]]);
+  });
+
+  it("passes the argument object to tools added with addDefinedTool", async () => {
+    const calls: unknown[] = [];
+    const tool = defineTool(
+      { name: "set_alarm", params: { time: string(), repeat: boolean().optional() } },
+      (args) => calls.push(args)
+    );
+    const thread = createFakeThread(server).addDefinedTool(tool);
+    server.reply("chat", {
+      toolCalls: [{ name: "set_alarm", arguments: { time: "07:00", repeat: true } }],
+    });
+
+    await thread.appendUserMessage("Wake me up").runPrompt();
+
+    assert.deepEqual(calls, [{ time: "07:00", repeat: true }]);
+  });
+});
@@ -0,0 +1,164 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { validateJsonSchema } from "../openAIwrapperSchema";
+import {
+  InferParams,
+  arrayOf,
+  boolean,
+  defineTool,
+  enumOf,
+  integer,
+  number,
+  object,
+  string,
+} from "../openAIwrapperTool";
+import { createFakeThread } from "./fakeThread";
+
+// compiles only when A and B are the same type, so the checks below are done by tsc
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+  ? true
+  : false;
+function expectType<T extends true>() {}
+
+const params = {
+  city: string({ minLength: 2 }).describe("The city"),
+  days: integer({ minimum: 1, maximum: 7 }),
+  unit: enumOf("celsius", "fahrenheit").optional(),
+  hourly: boolean().optional(),
+  tags: arrayOf(string(), { maxItems: 2 }),
+  position: object({ lat: number(), lon: number() }).optional(),
+};
+
+expectType<
+  Equals<
+    InferParams<typeof params>,
+    {
+      city: string;
+      days: number;
+      tags: string[];
+      unit?: "celsius" | "fahrenheit";
+      hourly?: boolean;
+      position?: { lat: number; lon: number };
+    }
+  >
+>();
+expectType<Equals<InferParams<{ level: ReturnType<typeof enumOf<1 | 2>> }>, { level: 1 | 2 }>>();
+// @ts-expect-error - an optional parameter is not a required property
+expectType<Equals<InferParams<{ unit: typeof params.unit }>, { unit: "celsius" | "fahrenheit" }>>();
+
+defineTool({ name: "forecast", params }, ({ city, unit }) => {
+  expectType<Equals<typeof city, string>>();
+  expectType<Equals<typeof unit, "celsius" | "fahrenheit" | undefined>>();
+});
+// @ts-expect-error - the implementation does not match the parameters
+defineTool({ name: "forecast", params }, (args: { city: number }) => args);
+// @ts-expect-error - the implementation has to accept a missing optional parameter
+defineTool({ name: "forecast", params }, (args: { unit: string }) => args);
+
+const forecastTool = defineTool(
+  { name: "get_forecast", description: "Get the weather forecast", params },
+  () => "Sunny"
+);
+
+describe("defineTool", () => {
+  it("generates the JSON schema of the parameters", () => {
+    assert.deepEqual(forecastTool.tool, {
+      type: "function",
+      function: {
+        name: "get_forecast",
+        description: "Get the weather forecast",
+        parameters: {
+          type: "object",
+          properties: {
+            city: { type: "string", minLength: 2, description: "The city" },
+            days: { type: "integer", minimum: 1, maximum: 7 },
+            unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+            hourly: { type: "boolean" },
+            tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+            position: {
+              type: "object",
+              properties: { lat: { type: "number" }, lon: { type: "number" } },
+              required: ["lat", "lon"],
+              additionalProperties: false,
+            },
+          },
+          required: ["city", "days", "tags"],
+          additionalProperties: false,
+        },
+      },
+    });
+  });
+
+  it("keeps builders unchanged when deriving optional or described parameters", () => {
+    const city = string();
+
+    assert.equal(city.optional().isOptional, true);
+    assert.equal(city.describe("The city").schema.description, "The city");
+    assert.equal(city.isOptional, false);
+    assert.deepEqual(city.schema, { type: "string" });
+    assert.deepEqual(enumOf(1, 2).schema, { type: "number", enum: [1, 2] });
+  });
+
+  it("validates arguments against the generated schema", () => {
+    const parameters = forecastTool.tool.function.parameters!;
+
+    assert.deepEqual(validateJsonSchema(parameters, { city: "Paris", days: 3, tags: [] }), []);
+    assert.deepEqual(
+      validateJsonSchema(parameters, {
+        city: "P",
+        days: 1.5,
+        unit: "kelvin",
+        tags: ["a", "b", "c"],
+        position: { lat: 48.9 },
+        extra: true,
+      }),
+      [
+        "$.city should have at least 2 characters",
+        "$.days should be of type integer, got number",
+        '$.unit should be one of ["celsius","fahrenheit"], got "kelvin"',
+        "$.tags should have at most 2 items",
+        "$.position.lon is required",
+        "$.extra is not an allowed property",
+      ]
+    );
+  });
+});
+
+describe("defined tools", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("only calls the implementation with valid arguments", async () => {
+    const calls: unknown[] = [];
+    const thread = createFakeThread(server).addDefinedTool(
+      defineTool({ name: "get_forecast", params }, (args) => {
+        calls.push(args);
+        return { forecast: "Sunny" };
+      })
+    );
+    server.reply(
+      "chat",
+      { toolCalls: [{ name: "get_forecast", arguments: { city: "Paris", days: 0, tags: [] } }] },
+      { toolCalls: [{ name: "get_forecast", arguments: { city: "Paris", days: 2, tags: [] } }] }
+    );
+
+    await thread.appendUserMessage("Weather in Paris?").runPrompt();
+    assert.deepEqual(calls, []);
+    assert.deepEqual(JSON.parse(String(thread.getMessages()[2].content)), {
+      error: "Invalid arguments for get_forecast",
+      details: ["$.days should be >= 1"],
+    });
+
+    await thread.runPrompt();
+    assert.deepEqual(calls, [{ city: "Paris", days: 2, tags: [] }]);
+    assert.deepEqual(JSON.parse(String(thread.getMessages()[4].content)), { forecast: "Sunny" });
+    assert.deepEqual(
+      server.getRequests("chat")[0].body.tools?.[0].function.parameters,
+      forecastTool.tool.function.parameters
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ToolCallError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread, getActiveCounts } from "./fakeThread";
+
+const weatherTool = {
+  name: "get_current_weather",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+describe("tool error policy", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("reports a failing tool to the model by default", async () => {
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, () => {
+      throw new Error("Weather service down");
+    });
+    server.reply("chat", {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Bern" } }],
+    });
+
+    await thread.appendUserMessage("Weather?").runPrompt();
+
+    assert.match(String(thread.getMessages()[2].content), /Weather service down/);
+  });
+
+  for (const stream of [false, true])
+    it(`counts the usage before a tool throws (${stream ? "stream" : "no stream"})`, async () => {
+      const deltas: Array<string | undefined> = [];
+      const thread = createFakeThread(server)
+        .addToolWithFunction(weatherTool, () => {
+          throw new Error("Weather service down");
+        })
+        .setToolErrorPolicy("throw");
+      thread.setStreamCallback((delta) => deltas.push(delta));
+      server.reply("chat", {
+        toolCalls: [{ name: "get_current_weather", arguments: { location: "Bern" } }],
+      });
+
+      thread.appendUserMessage("Weather?");
+      await assert.rejects(stream ? thread.runPromptStream() : thread.runPrompt(), ToolCallError);
+
+      assert.ok(getActiveCounts(thread).total_tokens > 0);
+      assert.ok(thread.getCost() > 0);
+      assert.equal(thread.getLastResponseAsChatCompletionResult().model, "gpt-3.5-turbo");
+      // every tool call is answered, so the thread can be run again
+      assert.equal(thread.getMessages()[2].role, "tool");
+      if (stream) assert.equal(deltas[deltas.length - 1], undefined);
+    });
+});
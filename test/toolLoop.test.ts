@@ -0,0 +1,79 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ToolRoundLimitError } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+const weatherTool = {
+  name: "get_current_weather",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+describe("runUntilComplete", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("runs the requested tools until the assistant answers", async () => {
+    const locations: string[] = [];
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, (location: string) => {
+      locations.push(location);
+      return { temperature: 21 };
+    });
+    server.reply(
+      "chat",
+      { toolCalls: [{ name: "get_current_weather", arguments: { location: "Paris" } }] },
+      { content: "It is 21 degrees in Paris." }
+    );
+
+    await thread.appendUserMessage("Weather in Paris?").runUntilComplete();
+
+    assert.deepEqual(locations, ["Paris"]);
+    assert.equal(thread.getLastResponseAsMessageResult().content, "It is 21 degrees in Paris.");
+    assert.equal(thread.needsToolRun(), false);
+
+    const [, second] = server.getRequests("chat");
+    const toolMessage = second.body.messages.find((message) => message.role === "tool");
+    assert.deepEqual(JSON.parse(String(toolMessage?.content)), { temperature: 21 });
+  });
+
+  it("throws after the round cap", async () => {
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, () => "sunny");
+    const toolCall = {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Oslo" } }],
+    };
+    server.reply("chat", toolCall, toolCall, toolCall);
+
+    await assert.rejects(
+      thread.appendUserMessage("Weather?").runUntilComplete(undefined, { maxRounds: 2 }),
+      ToolRoundLimitError
+    );
+    assert.equal(server.getRequests("chat").length, 2);
+  });
+
+  it("can stop at the round cap without throwing", async () => {
+    const rounds: number[] = [];
+    const thread = createFakeThread(server).addToolWithFunction(weatherTool, () => "sunny");
+    const toolCall = {
+      toolCalls: [{ name: "get_current_weather", arguments: { location: "Oslo" } }],
+    };
+    server.reply("chat", toolCall, toolCall);
+
+    await thread.appendUserMessage("Weather?").runUntilComplete(undefined, {
+      maxRounds: 2,
+      throwOnMaxRounds: false,
+      onRound: (round) => {
+        rounds.push(round);
+      },
+    });
+
+    assert.deepEqual(rounds, [1, 2]);
+    assert.equal(thread.needsToolRun(), true);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { OpenAIWrapperClass } from "../openAIwrapper.class";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { openAIProvider } from "../openAIwrapperProvider";
+import {
+  CassetteMismatchError,
+  recordingTransport,
+  replayTransport,
+} from "../openAIwrapperTransport";
+import { createFakeThread } from "./fakeThread";
+
+describe("record and replay", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "openai-wrapper-"));
+  const cassette = path.join(directory, "cassette.json");
+
+  before(async () => {
+    const server = new FakeOpenAIServer();
+    await server.start();
+    server.reply("chat", { content: "Recorded answer" }, { content: "Recorded stream" });
+
+    try {
+      const thread = createFakeThread(server).setTransport(recordingTransport(cassette));
+      await thread.appendUserMessage("Hello").runPrompt();
+      await thread.appendUserMessage("And streamed?").runPromptStream();
+    } finally {
+      await server.stop();
+    }
+  });
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  // no server is running, the base URL only has to match the recording
+  const createReplayThread = () =>
+    new OpenAIWrapperClass(openAIProvider({ apiKey: "test", baseURL: "http://127.0.0.1:1/v1" }))
+      .setRetryPolicy(false)
+      .setTransport(replayTransport(cassette));
+
+  it("replays a recorded conversation without a server", async () => {
+    const deltas: string[] = [];
+    const thread = createReplayThread();
+
+    await thread.appendUserMessage("Hello").runPrompt();
+    assert.equal(thread.getLastResponseAsMessageResult().content, "Recorded answer");
+
+    thread.setStreamCallback((delta) => delta !== undefined && deltas.push(delta));
+    await thread.appendUserMessage("And streamed?").runPromptStream();
+    assert.equal(deltas.join(""), "Recorded stream");
+  });
+
+  it("fails on a request that was not recorded", async () => {
+    const thread = createReplayThread();
+
+    await assert.rejects(
+      thread.appendUserMessage("Something else").runPrompt(),
+      CassetteMismatchError
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import {
+  InMemoryVectorStore,
+  VectorDimensionError,
+  VectorDocument,
+} from "../openAIwrapperVectorStore";
+
+type Metadata = { lang: string; year: number };
+
+const documents: VectorDocument<Metadata>[] = [
+  { id: "north", text: "North", embedding: [0, 1], metadata: { lang: "en", year: 2021 } },
+  { id: "east", text: "East", embedding: [1, 0], metadata: { lang: "de", year: 2022 } },
+  { id: "north-east", text: "North-east", embedding: [3, 3], metadata: { lang: "en", year: 2023 } },
+];
+
+const createStore = () => new InMemoryVectorStore<Metadata>().upsert(...documents);
+
+const ids = (results: { document: VectorDocument<Metadata> }[]) =>
+  results.map((result) => result.document.id);
+
+describe("in-memory vector store", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "openai-wrapper-"));
+
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("adds, replaces and removes documents", () => {
+    const store = createStore();
+
+    assert.equal(store.size(), 3);
+    store.upsert({ ...documents[0], text: "Up" });
+    assert.equal(store.size(), 3);
+    assert.equal(store.get("north")?.text, "Up");
+    assert.deepEqual(
+      store.list().map((document) => document.id),
+      ["north", "east", "north-east"]
+    );
+
+    store.delete("east", "unknown");
+    assert.equal(store.size(), 2);
+    assert.equal(store.get("east"), undefined);
+  });
+
+  it("refuses embeddings with other dimensions", () => {
+    const store = createStore();
+
+    assert.throws(
+      () =>
+        store.upsert({
+          id: "up",
+          text: "Up",
+          embedding: [0, 0, 1],
+          metadata: documents[0].metadata,
+        }),
+      (error) => {
+        assert.ok(error instanceof VectorDimensionError);
+        assert.equal(error.expected, 2);
+        assert.equal(error.actual, 3);
+        return true;
+      }
+    );
+    assert.throws(() => store.search([1]), VectorDimensionError);
+    // the only document may be replaced by one of other dimensions
+    new InMemoryVectorStore()
+      .upsert(documents[0])
+      .upsert({ ...documents[0], embedding: [1, 2, 3] });
+  });
+
+  it("ranks by cosine similarity, ignoring the length of the embeddings", () => {
+    const results = createStore().search([1, 0.2]);
+
+    assert.deepEqual(ids(results), ["east", "north-east", "north"]);
+    assert.ok(Math.abs(results[1].score - 1.2 / Math.sqrt(1.04) / Math.SQRT2) < 1e-12);
+  });
+
+  it("ranks by dot product, top k and minimum score", () => {
+    const store = createStore();
+
+    assert.deepEqual(ids(store.search([1, 0.2], { metric: "dot" })), [
+      "north-east",
+      "east",
+      "north",
+    ]);
+    assert.deepEqual(ids(store.search([1, 0.2], { topK: 1 })), ["east"]);
+    assert.deepEqual(ids(store.search([1, 0.2], { minScore: 0.5 })), ["east", "north-east"]);
+  });
+
+  it("filters on metadata", () => {
+    const store = createStore();
+
+    assert.deepEqual(ids(store.search([1, 0], { filter: { lang: "en" } })), [
+      "north-east",
+      "north",
+    ]);
+    assert.deepEqual(ids(store.search([1, 0], { filter: { lang: "en", year: 2021 } })), ["north"]);
+    assert.deepEqual(ids(store.search([1, 0], { filter: { year: [2021, 2022] } })), [
+      "east",
+      "north",
+    ]);
+    assert.deepEqual(ids(store.search([1, 0], { filter: (metadata) => metadata.year > 2021 })), [
+      "east",
+      "north-east",
+    ]);
+  });
+
+  it("saves and loads the documents", async () => {
+    const file = path.join(directory, "stores", "store.json");
+    await createStore().save(file);
+
+    const loaded = await InMemoryVectorStore.load<Metadata>(file);
+
+    assert.deepEqual(loaded.list(), documents);
+    assert.deepEqual(ids(loaded.search([1, 0.2])), ["east", "north-east", "north"]);
+    assert.deepEqual(fs.readdirSync(path.dirname(file)), ["store.json"]);
+  });
+
+  it("refuses serialized stores of unknown versions", () => {
+    assert.throws(
+      () => InMemoryVectorStore.fromJSON({ version: 2 as 1, documents: [] }),
+      /Unsupported vector store version 2/
+    );
+  });
+});
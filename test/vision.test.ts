@@ -0,0 +1,103 @@
+import * as assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ChatCompletionContentPart } from "openai/resources";
+import { FakeOpenAIServer } from "../openAIwrapperFakeServer";
+import { createFakeThread } from "./fakeThread";
+
+describe("vision", () => {
+  const server = new FakeOpenAIServer();
+
+  before(() => server.start());
+  after(() => server.stop());
+  beforeEach(() => server.reset());
+
+  it("keeps the images in the thread for follow-up questions", async () => {
+    const thread = createFakeThread(server);
+    server.reply("chat", { content: "Two cats." }, { content: "The left one." });
+
+    await thread.runVisionPrompt("What is on these photos?", [
+      "https://example.com/cat1.png",
+      "https://example.com/cat2.png",
+    ]);
+    await thread.runVisionPrompt("Which of them is the oldest?");
+
+    assert.equal(
+      thread.getLastResponseAsVisionResult().choices[0].message.content,
+      "The left one."
+    );
+    const followUp = server.getRequests("chat")[1].body;
+    assert.equal(followUp.model, "gpt-4o");
+    const images = followUp.messages
+      .flatMap((message) =>
+        Array.isArray(message.content) ? (message.content as ChatCompletionContentPart[]) : []
+      )
+      .filter((part) => part.type === "image_url");
+    assert.equal(images.length, 2);
+  });
+
+  it("keeps the tools of the thread usable after a vision prompt", async () => {
+    const locations: string[] = [];
+    const thread = createFakeThread(server).addToolWithFunction(
+      {
+        name: "get_current_weather",
+        parameters: {
+          type: "object",
+          properties: { location: { type: "string" } },
+          required: ["location"],
+        },
+      },
+      (location: string) => {
+        locations.push(location);
+        return "sunny";
+      }
+    );
+    server.reply(
+      "chat",
+      { content: "The Eiffel Tower." },
+      { toolCalls: [{ name: "get_current_weather", arguments: { location: "Paris" } }] },
+      { content: "It is sunny there." }
+    );
+
+    await thread.runVisionPrompt("Where is this?", "https://example.com/tower.png");
+    await thread.appendUserMessage("What is the weather there?").runUntilComplete();
+
+    assert.deepEqual(locations, ["Paris"]);
+    assert.equal(thread.getLastResponseAsMessageResult().content, "It is sunny there.");
+    const [vision, toolPrompt] = server.getRequests("chat");
+    // the vision request is sent with the tools too, they are not dropped
+    assert.equal(vision.body.tools?.[0].function.name, "get_current_weather");
+    assert.equal(toolPrompt.body.model, "gpt-4o");
+    assert.equal(toolPrompt.body.tools?.length, 1);
+  });
+
+  it("allows structured prompts after a vision prompt", async () => {
+    const thread = createFakeThread(server);
+    server.reply("chat", { content: "A cat." }, { content: '{"animal":"cat"}' });
+
+    await thread.runVisionPrompt("What is this?", "https://example.com/cat.png");
+    await thread.runStructuredPrompt({
+      type: "object",
+      properties: { animal: { type: "string" } },
+      required: ["animal"],
+    });
+
+    assert.deepEqual(thread.getLastResponseAsStructuredResult(), { animal: "cat" });
+    assert.deepEqual(server.getRequests("chat")[1].body.response_format, { type: "json_object" });
+  });
+
+  it("removes a failed question from the thread", async () => {
+    const thread = createFakeThread(server);
+    await thread.appendUserMessage("Hello").runPrompt();
+    server.reply("chat", { status: 400, message: "Invalid image" });
+
+    await assert.rejects(
+      thread.runVisionPrompt("What is this?", "https://example.com/broken.png"),
+      /Invalid image/
+    );
+
+    assert.deepEqual(
+      thread.getMessages().map((message) => message.role),
+      ["user", "assistant"]
+    );
+  });
+});